@@ -0,0 +1,82 @@
+/**
+ * 他の拡張機能に公開するAPIの型定義。
+ * 他の拡張機能からは次のように取得します。
+ *
+ *   const api = await vscode.extensions.getExtension<OpenInExplorerApi>('takashivscode.open-in-explorer')?.activate();
+ */
+
+import type * as vscode from 'vscode';
+import { PathActionId } from './pathActions';
+import { TextPosition } from './pathText';
+
+/**
+ * openPath で実行する動作
+ * - auto: extension.openInExplorer と同じく、ファイルの種類ごとの規則に従う
+ * - それ以外: Path Actions の各操作
+ */
+export type OpenAction = 'auto' | PathActionId;
+
+/**
+ * resolvePath のオプション
+ */
+export interface ResolvePathOptions {
+    interactive?: boolean;   // 候補が複数ある場合にユーザーに選択させるかどうか（既定はfalse）
+}
+
+/**
+ * resolvePath の結果
+ */
+export type ResolvedPath =
+    | {
+        kind: 'resolved';
+        path: string;              // 正規化したパス
+        exists: boolean;           // パスが存在する場合はtrue
+        isFile: boolean;           // ファイルの場合はtrue
+        isDirectory: boolean;      // フォルダの場合はtrue
+        size?: number;             // ファイルサイズ（バイト、存在しない場合はundefined）
+        position?: TextPosition;   // テキストに含まれていた行・列の位置指定
+    }
+    | { kind: 'error'; message: string }   // 検証エラー（表示用の言語に変換済み）
+    | { kind: 'cancelled' };               // ユーザーが候補の選択を取り消した
+
+/**
+ * openPath のオプション
+ */
+export interface OpenPathOptions {
+    action?: OpenAction;   // 実行する動作（既定は auto）
+    profile?: string;      // 使用するエクスプローラープロファイル名
+}
+
+/**
+ * パスを開いた後に通知するイベントの内容
+ */
+export interface PathOpenedEvent {
+    input: string;    // 処理したパス
+    path: string;     // 実際に開いたパス
+    action: string;   // 実行した動作（reveal・openInVSCode など）
+}
+
+/**
+ * 公開するAPI
+ */
+export interface OpenInExplorerApi {
+    /**
+     * パスを表すテキストを解析・正規化し、存在を確認します。
+     * @param text パスを表すテキスト（環境変数・URI・行番号の指定などを含めることが可能）
+     * @param options オプション
+     * @returns 解決結果
+     */
+    resolvePath(text: string, options?: ResolvePathOptions): Promise<ResolvedPath>;
+
+    /**
+     * パスを開きます。検証エラーなどはユーザーに通知します。
+     * @param text パスを表すテキスト
+     * @param options 実行する動作とプロファイル
+     */
+    openPath(text: string, options?: OpenPathOptions): Promise<void>;
+
+    /**
+     * パスを開いた後に発生するイベント（キャンセル・失敗した場合は発生しません）
+     */
+    readonly onDidOpenPath: vscode.Event<PathOpenedEvent>;
+}
@@ -0,0 +1,401 @@
+/**
+ * ZIP・tar・tar.gz 形式のアーカイブの内容を読み込むためのユーティリティ。
+ * 外部のツールやライブラリを使用せず、Node.js の fs と zlib のみで読み込みます。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createGunzip, inflateRaw } from 'zlib';
+import { promisify } from 'util';
+
+const inflateRawAsync = promisify(inflateRaw);
+
+/**
+ * アーカイブの形式
+ */
+export type ArchiveKind = 'zip' | 'tar' | 'tar.gz';
+
+/**
+ * アーカイブ内のエントリ
+ */
+export interface ArchiveEntry {
+    name: string;           // アーカイブ内のパス（/ 区切り、先頭の / なし）
+    size: number;           // 展開後のサイズ（バイト）
+    isDirectory: boolean;   // フォルダかどうか
+}
+
+/**
+ * パスをアーカイブとその中のエントリに分割した結果
+ */
+export interface ArchiveLocation {
+    archivePath: string;   // アーカイブのパス
+    kind: ArchiveKind;     // アーカイブの形式
+    entryPath: string;     // アーカイブ内のパス（/ 区切り、アーカイブ自体を指す場合は空文字列）
+}
+
+// 拡張子とアーカイブの形式の対応（長い拡張子を先に判定する）
+const ARCHIVE_EXTENSIONS: [string, ArchiveKind][] = [
+    ['.tar.gz', 'tar.gz'],
+    ['.tgz', 'tar.gz'],
+    ['.tar', 'tar'],
+    ['.zip', 'zip'],
+    ['.jar', 'zip'],
+    ['.war', 'zip'],
+    ['.nupkg', 'zip'],
+    ['.vsix', 'zip']
+];
+
+// 読み込むエントリの最大サイズ（展開後）
+export const MAX_ENTRY_SIZE = 256 * 1024 * 1024;
+
+/**
+ * ファイル名からアーカイブの形式を判定します。
+ * @param name ファイル名またはパス
+ * @returns アーカイブの形式（アーカイブでない場合はundefined）
+ */
+export function getArchiveKind(name: string): ArchiveKind | undefined {
+    const lower = name.toLowerCase();
+    return ARCHIVE_EXTENSIONS.find(([ext]) => lower.endsWith(ext))?.[1];
+}
+
+/**
+ * 存在しないパスの祖先にアーカイブファイルがあるかどうかを調べ、アーカイブとその中のパスに分割します。
+ * C:\drops\build.zip\bin\app.dll → C:\drops\build.zip と bin/app.dll
+ *
+ * @param filePath 調べるパス
+ * @param isFile パスがファイルとして存在するかどうかを判定する関数
+ * @returns 分割した結果（アーカイブが見つからない場合はundefined）
+ */
+export async function findArchiveLocation(
+    filePath: string,
+    isFile: (candidate: string) => Promise<boolean>
+): Promise<ArchiveLocation | undefined> {
+    const separator = /[\\/]/g;
+    let match: RegExpExecArray | null;
+    while ((match = separator.exec(filePath)) !== null) {
+        const candidate = filePath.slice(0, match.index);
+        const kind = getArchiveKind(candidate);
+        if (kind && await isFile(candidate)) {
+            const entryPath = filePath.slice(match.index + 1).replace(/\\/g, '/').replace(/\/+$/, '');
+            return { archivePath: candidate, kind, entryPath };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * エントリ名を / 区切り、先頭の / や ./ なしの形式に揃えます。
+ * @param name エントリ名
+ * @returns 揃えたエントリ名
+ */
+function normalizeEntryName(name: string): string {
+    return name.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+// ---- ZIP ----
+
+const ZIP_EOCD_SIGNATURE = 0x06054B50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014B50;
+const ZIP_LOCAL_SIGNATURE = 0x04034B50;
+
+/**
+ * ZIPの中央ディレクトリのエントリ
+ */
+interface ZipEntry extends ArchiveEntry {
+    method: number;           // 圧縮方式（0: 無圧縮、8: deflate）
+    compressedSize: number;   // 圧縮後のサイズ
+    localOffset: number;      // ローカルファイルヘッダーの位置
+}
+
+/**
+ * ファイルの指定した範囲を読み込みます。
+ * @param handle ファイルハンドル
+ * @param position 開始位置
+ * @param length 読み込むバイト数
+ * @returns 読み込んだバイト列
+ */
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+    const { bytesRead, buffer } = await handle.read(Buffer.alloc(length), 0, length, position);
+    return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * ZIPの中央ディレクトリを読み込みます。
+ * @param handle ファイルハンドル
+ * @returns エントリの一覧
+ */
+async function readZipDirectory(handle: fs.FileHandle): Promise<ZipEntry[]> {
+    const { size } = await handle.stat();
+    // 終端レコード（22バイト + コメント最大65535バイト）をファイルの末尾から探す
+    const tailLength = Math.min(size, 22 + 0xFFFF);
+    const tail = await readAt(handle, size - tailLength, tailLength);
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === ZIP_EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        throw new Error('ZIP end of central directory not found');
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (directoryOffset === 0xFFFFFFFF || entryCount === 0xFFFF) {
+        throw new Error('ZIP64 archives are not supported');
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount && offset + 46 <= directory.length; i++) {
+        if (directory.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE) {
+            throw new Error('Invalid ZIP central directory');
+        }
+        const flags = directory.readUInt16LE(offset + 8);
+        const nameLength = directory.readUInt16LE(offset + 28);
+        const extraLength = directory.readUInt16LE(offset + 30);
+        const commentLength = directory.readUInt16LE(offset + 32);
+        const rawName = directory.subarray(offset + 46, offset + 46 + nameLength);
+        // UTF-8フラグ（ビット11）がない場合はlatin1として扱う
+        const name = normalizeEntryName(rawName.toString(flags & 0x0800 ? 'utf8' : 'latin1'));
+        entries.push({
+            name: name.replace(/\/$/, ''),
+            isDirectory: name.endsWith('/'),
+            method: directory.readUInt16LE(offset + 10),
+            compressedSize: directory.readUInt32LE(offset + 20),
+            size: directory.readUInt32LE(offset + 24),
+            localOffset: directory.readUInt32LE(offset + 42)
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+/**
+ * ZIPのエントリを展開します。
+ * @param handle ファイルハンドル
+ * @param entry エントリ
+ * @returns 展開した内容
+ */
+async function extractZipEntry(handle: fs.FileHandle, entry: ZipEntry): Promise<Buffer> {
+    if (entry.size > MAX_ENTRY_SIZE) {
+        throw new Error(`Entry is too large: ${entry.name}`);
+    }
+    const header = await readAt(handle, entry.localOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+        throw new Error('Invalid ZIP local file header');
+    }
+    const dataOffset = entry.localOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await readAt(handle, dataOffset, entry.compressedSize);
+    switch (entry.method) {
+        case 0:
+            return data;
+        case 8:
+            // 宣言されたサイズを超えて展開しない（サイズを偽った圧縮爆弾で拡張機能のメモリを使い果たさないため）
+            try {
+                return await inflateRawAsync(data, { maxOutputLength: Math.max(1, Math.min(entry.size, MAX_ENTRY_SIZE)) });
+            } catch (error: any) {
+                if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+                    throw new Error(`Entry is larger than declared: ${entry.name}`);
+                }
+                throw error;
+            }
+        default:
+            throw new Error(`Unsupported ZIP compression method: ${entry.method}`);
+    }
+}
+
+// ---- tar ----
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * tarのヘッダーの数値フィールド（8進数、または大きな値のbase-256）を読み込みます。
+ * @param field フィールドのバイト列
+ * @returns 数値
+ */
+function parseTarNumber(field: Buffer): number {
+    if (field[0] & 0x80) {
+        let value = 0;
+        for (let i = 1; i < field.length; i++) {
+            value = value * 256 + field[i];
+        }
+        return value;
+    }
+    const text = field.toString('latin1').replace(/\0.*$/s, '').trim();
+    return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * tarのヘッダーの文字列フィールドを読み込みます。
+ * @param field フィールドのバイト列
+ * @returns 文字列
+ */
+function parseTarString(field: Buffer): string {
+    const end = field.indexOf(0);
+    return field.subarray(0, end < 0 ? field.length : end).toString('utf8');
+}
+
+/**
+ * pax拡張ヘッダーから path を取得します。
+ * @param data pax拡張ヘッダーの内容（"長さ key=value\n" の繰り返し）
+ * @returns path の値
+ */
+function parsePaxPath(data: Buffer): string | undefined {
+    const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'));
+    return match?.[1];
+}
+
+/**
+ * tarのエントリを先頭から順に読み込みます。
+ * @param archivePath アーカイブのパス
+ * @param gzip gzipで圧縮されているかどうか
+ * @param wanted 内容を読み込むエントリ名（未指定の場合は一覧のみ）
+ * @returns エントリの一覧と、指定したエントリの内容
+ */
+async function scanTar(
+    archivePath: string,
+    gzip: boolean,
+    wanted?: string
+): Promise<{ entries: ArchiveEntry[]; data?: Buffer }> {
+    const entries: ArchiveEntry[] = [];
+    const source = createReadStream(archivePath);
+    const stream = gzip ? source.pipe(createGunzip()) : source;
+
+    let pending = Buffer.alloc(0);
+    let skip = 0;                              // 読み飛ばすデータの残りバイト数（パディングを含む）
+    let collect: Buffer[] | undefined;         // 内容を集めているデータ
+    let collectRemaining = 0;                  // 集めるデータの残りバイト数
+    let collectTarget: 'entry' | 'longName' | 'pax' = 'entry';
+    let nextName: string | undefined;          // GNUの長いファイル名・paxのpath
+    let data: Buffer | undefined;
+
+    try {
+        for await (const chunk of stream) {
+            pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+            while (pending.length > 0) {
+                if (collect) {
+                    const take = Math.min(collectRemaining, pending.length);
+                    collect.push(pending.subarray(0, take));
+                    pending = pending.subarray(take);
+                    collectRemaining -= take;
+                    if (collectRemaining > 0) {
+                        break;
+                    }
+                    const content = Buffer.concat(collect);
+                    collect = undefined;
+                    if (collectTarget === 'entry') {
+                        data = content;
+                        return { entries, data };
+                    }
+                    nextName = collectTarget === 'longName' ? parseTarString(content) : parsePaxPath(content) ?? nextName;
+                    continue;
+                }
+                if (skip > 0) {
+                    const take = Math.min(skip, pending.length);
+                    pending = pending.subarray(take);
+                    skip -= take;
+                    continue;
+                }
+                if (pending.length < TAR_BLOCK_SIZE) {
+                    break;
+                }
+
+                const header = pending.subarray(0, TAR_BLOCK_SIZE);
+                pending = pending.subarray(TAR_BLOCK_SIZE);
+                if (header.every(byte => byte === 0)) {
+                    // 終端ブロック
+                    return { entries, data };
+                }
+
+                const size = parseTarNumber(header.subarray(124, 136));
+                const padded = Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+                const type = String.fromCharCode(header[156] || 0x30);
+                if (type === 'L' || type === 'x') {
+                    // 次のエントリの名前（GNUの長いファイル名・pax拡張ヘッダー）
+                    collect = [];
+                    collectRemaining = size;
+                    collectTarget = type === 'L' ? 'longName' : 'pax';
+                    skip = padded - size;
+                    if (size === 0) {
+                        collect = undefined;
+                    }
+                    continue;
+                }
+
+                const prefix = header.toString('latin1', 257, 262) === 'ustar' ? parseTarString(header.subarray(345, 500)) : '';
+                const baseName = parseTarString(header.subarray(0, 100));
+                const rawName = nextName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+                nextName = undefined;
+                const isDirectory = type === '5' || rawName.endsWith('/');
+                const name = normalizeEntryName(rawName).replace(/\/$/, '');
+
+                if (type === '0' || type === '\0' || type === '5' || type === '7') {
+                    entries.push({ name, size, isDirectory });
+                }
+
+                if (wanted !== undefined && name === wanted && !isDirectory) {
+                    if (size > MAX_ENTRY_SIZE) {
+                        throw new Error(`Entry is too large: ${name}`);
+                    }
+                    if (size === 0) {
+                        return { entries, data: Buffer.alloc(0) };
+                    }
+                    collect = [];
+                    collectRemaining = size;
+                    collectTarget = 'entry';
+                } else {
+                    skip = padded;
+                }
+            }
+        }
+        return { entries, data };
+    } finally {
+        source.destroy();
+    }
+}
+
+// ---- 共通 ----
+
+/**
+ * アーカイブ内のエントリの一覧を取得します。
+ * @param archivePath アーカイブのパス
+ * @param kind アーカイブの形式
+ * @returns エントリの一覧
+ */
+export async function listArchiveEntries(archivePath: string, kind: ArchiveKind): Promise<ArchiveEntry[]> {
+    if (kind !== 'zip') {
+        return (await scanTar(archivePath, kind === 'tar.gz')).entries;
+    }
+    const handle = await fs.open(archivePath, 'r');
+    try {
+        return (await readZipDirectory(handle)).map(({ name, size, isDirectory }) => ({ name, size, isDirectory }));
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * アーカイブ内のエントリの内容を読み込みます。
+ * @param archivePath アーカイブのパス
+ * @param kind アーカイブの形式
+ * @param entryName エントリ名
+ * @returns 内容（エントリが見つからない場合はundefined）
+ */
+export async function readArchiveEntry(archivePath: string, kind: ArchiveKind, entryName: string): Promise<Buffer | undefined> {
+    const wanted = normalizeEntryName(entryName);
+    if (kind !== 'zip') {
+        return (await scanTar(archivePath, kind === 'tar.gz', wanted)).data;
+    }
+    const handle = await fs.open(archivePath, 'r');
+    try {
+        const entry = (await readZipDirectory(handle)).find(e => e.name === wanted && !e.isDirectory);
+        return entry ? await extractZipEntry(handle, entry) : undefined;
+    } finally {
+        await handle.close();
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * ブックマークしたパスを扱うためのユーティリティ。
+ * ブックマークは設定（openInExplorer.bookmarks、チームで共有）と個人用の保存先の両方から読み込み、
+ * グループ（ユーザーが定義したフォルダ）ごとにまとめて表示します。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * ブックマーク
+ */
+export interface Bookmark {
+    path: string;      // パス（環境変数やマッピングの対象となる表記も可）
+    name?: string;     // 表示名（未指定の場合はパスの末尾）
+    group?: string;    // グループ名（未指定の場合は最上位に表示）
+}
+
+/**
+ * グループごとにまとめたブックマーク
+ */
+export interface BookmarkGroup {
+    name?: string;           // グループ名（最上位の場合はundefined）
+    bookmarks: Bookmark[];   // グループ内のブックマーク（登録順）
+}
+
+/**
+ * 設定値のうち、有効なブックマークのみを取り出します。
+ * @param value 設定値
+ * @returns パスが指定されたブックマークの配列
+ */
+export function sanitizeBookmarks(value: unknown): Bookmark[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.filter((bookmark): bookmark is Bookmark =>
+        typeof bookmark === 'object' && bookmark !== null &&
+        typeof bookmark.path === 'string' && bookmark.path.trim() !== ''
+    );
+}
+
+/**
+ * ブックマークの表示名を取得します。
+ * @param bookmark ブックマーク
+ * @returns 表示名（未指定の場合はパスの最後の要素）
+ */
+export function getBookmarkLabel(bookmark: Bookmark): string {
+    if (bookmark.name) {
+        return bookmark.name;
+    }
+    const trimmed = bookmark.path.replace(/[\\/]+$/, '');
+    return trimmed.slice(Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\')) + 1) || bookmark.path;
+}
+
+/**
+ * ブックマークをグループごとにまとめます。
+ * グループは最初に現れた順に並べ、グループのないブックマークは最後にまとめます。
+ * @param bookmarks ブックマーク
+ * @returns グループの配列
+ */
+export function groupBookmarks(bookmarks: Bookmark[]): BookmarkGroup[] {
+    const groups = new Map<string, Bookmark[]>();
+    const ungrouped: Bookmark[] = [];
+    for (const bookmark of bookmarks) {
+        const group = bookmark.group?.trim();
+        if (!group) {
+            ungrouped.push(bookmark);
+            continue;
+        }
+        groups.set(group, [...(groups.get(group) ?? []), bookmark]);
+    }
+    const result: BookmarkGroup[] = [...groups].map(([name, items]) => ({ name, bookmarks: items }));
+    if (ungrouped.length > 0) {
+        result.push({ bookmarks: ungrouped });
+    }
+    return result;
+}
+
+/**
+ * 2つのブックマークが同じパス・グループかどうかを判定します。グループの前後の空白は無視します。
+ * @param a ブックマーク
+ * @param b ブックマーク
+ * @param caseInsensitive パスの大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 同じ場合はtrue
+ */
+function isSameBookmark(a: Bookmark, b: Bookmark, caseInsensitive: boolean): boolean {
+    const samePath = caseInsensitive ? a.path.toLowerCase() === b.path.toLowerCase() : a.path === b.path;
+    return samePath && (a.group?.trim() || '') === (b.group?.trim() || '');
+}
+
+/**
+ * ブックマークを追加します。同じパス・グループのブックマークがある場合は置き換えます。
+ * @param bookmarks ブックマーク
+ * @param bookmark 追加するブックマーク
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 追加後のブックマーク
+ */
+export function addBookmark(bookmarks: Bookmark[], bookmark: Bookmark, caseInsensitive: boolean = false): Bookmark[] {
+    const index = bookmarks.findIndex(item => isSameBookmark(item, bookmark, caseInsensitive));
+    if (index < 0) {
+        return [...bookmarks, bookmark];
+    }
+    return bookmarks.map((item, i) => i === index ? bookmark : item);
+}
+
+/**
+ * ブックマークを削除します。同じパス・グループの判定は addBookmark と同じです。
+ * @param bookmarks ブックマーク
+ * @param bookmark 削除するブックマーク
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 削除後のブックマーク
+ */
+export function removeBookmark(bookmarks: Bookmark[], bookmark: Bookmark, caseInsensitive: boolean = false): Bookmark[] {
+    return bookmarks.filter(item => !isSameBookmark(item, bookmark, caseInsensitive));
+}
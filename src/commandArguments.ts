@@ -0,0 +1,62 @@
+/**
+ * extension.openInExplorer コマンドの引数を、呼び出し元に応じた処理に振り分けるためのユーティリティ。
+ * エクスプローラービュー・タブからはUri、他の拡張機能からはパスの文字列、
+ * キーバインドからは { "profile": "名前" } の形式で引数を受け取ります。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * リソースのURI（vscode.Uri のうち使用するプロパティ）
+ */
+export interface ResourceUri {
+    scheme: string;    // URIのスキーム（file など）
+    fsPath: string;    // ファイルシステムのパス
+}
+
+/**
+ * extension.openInExplorer の引数
+ * - ResourceUri: エクスプローラービュー・エディタのタブから呼び出された場合のリソース
+ * - string: パスを表すテキスト
+ * - { profile }: キーバインドで指定したプロファイル（エディタの選択範囲を使用する）
+ */
+export type OpenInExplorerArgument = ResourceUri | string | { profile?: string } | undefined;
+
+/**
+ * 引数から決まる処理
+ * - resources: リソースのパスを表示する（file スキーム以外のリソースは除外するため、空の場合もある）
+ * - text: パスを表すテキストを開く
+ * - selection: エディタの選択範囲のパスを開く
+ */
+export type OpenInExplorerTarget =
+    | { kind: 'resources'; paths: string[] }
+    | { kind: 'text'; text: string }
+    | { kind: 'selection'; profile?: string };
+
+/**
+ * 値がリソースのURIかどうかを判定します。
+ * @param value 判定する値
+ * @returns リソースのURIの場合はtrue
+ */
+function isResourceUri(value: unknown): value is ResourceUri {
+    return typeof value === 'object' && value !== null &&
+        typeof (value as ResourceUri).scheme === 'string' && typeof (value as ResourceUri).fsPath === 'string';
+}
+
+/**
+ * extension.openInExplorer の引数から、実行する処理を決めます。
+ * エクスプローラービューで複数選択された場合は、2番目の引数のリソースをすべて対象とします。
+ * @param arg 1番目の引数
+ * @param uris エクスプローラービューで複数選択されたリソース（任意）
+ * @returns 実行する処理
+ */
+export function classifyOpenInExplorerArgument(arg: unknown, uris?: readonly unknown[]): OpenInExplorerTarget {
+    if (isResourceUri(arg)) {
+        const resources = uris && uris.length > 0 ? uris.filter(isResourceUri) : [arg];
+        return { kind: 'resources', paths: resources.filter(uri => uri.scheme === 'file').map(uri => uri.fsPath) };
+    }
+    if (typeof arg === 'string') {
+        return { kind: 'text', text: arg };
+    }
+    const profile = typeof arg === 'object' && arg !== null ? (arg as { profile?: unknown }).profile : undefined;
+    return { kind: 'selection', profile: typeof profile === 'string' && profile !== '' ? profile : undefined };
+}
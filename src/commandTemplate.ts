@@ -0,0 +1,114 @@
+/**
+ * カスタムエクスプローラーのコマンドテンプレートを引数の配列に展開するためのユーティリティ。
+ * シェルを介さずに起動するため、パスに空白や記号が含まれていても1つの引数として渡されます。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * テンプレートのプレースホルダーに埋め込む値
+ */
+export interface TemplateValues {
+    path: string;      // ${path}: 対象のパス
+    dir: string;       // ${dir}: 対象のフォルダ（ファイルの場合は親フォルダ）
+    name: string;      // ${name}: ファイル名・フォルダ名
+    line?: number;     // ${line}: 行番号（指定がない場合は1）
+    column?: number;   // ${column}: 列番号（指定がない場合は1）
+}
+
+/**
+ * 展開したコマンド
+ */
+export interface CommandLine {
+    command: string;   // 実行するコマンド
+    args: string[];    // コマンド引数
+}
+
+// 対応するプレースホルダー
+const PLACEHOLDER_REGEX = /\$\{(path|dir|name|line|column)\}/g;
+
+/**
+ * コマンドライン文字列を引数の配列に分割します。
+ * 空白で区切り、ダブルクォート・シングルクォートで囲まれた部分は1つの引数として扱います。
+ * Windowsのパスを書けるよう、バックスラッシュはエスケープ文字として扱いません。
+ *
+ * @param commandLine コマンドライン文字列
+ * @returns 引数の配列（引用符が閉じていない場合はnull）
+ */
+export function splitCommandLine(commandLine: string): string[] | null {
+    const args: string[] = [];
+    let current = '';
+    let inArgument = false;
+    let quote: string | null = null;
+
+    for (const char of commandLine) {
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            inArgument = true;
+        } else if (/\s/.test(char)) {
+            if (inArgument) {
+                args.push(current);
+                current = '';
+                inArgument = false;
+            }
+        } else {
+            current += char;
+            inArgument = true;
+        }
+    }
+
+    if (quote) {
+        return null;
+    }
+    if (inArgument) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * テンプレートにプレースホルダーが含まれるかどうかを判定します。
+ * @param template コマンドテンプレート
+ * @returns 含まれる場合はtrue
+ */
+export function hasPlaceholders(template: string): boolean {
+    PLACEHOLDER_REGEX.lastIndex = 0;
+    return PLACEHOLDER_REGEX.test(template);
+}
+
+/**
+ * コマンドテンプレートを展開します。
+ * テンプレートを先に引数へ分割してからプレースホルダーを置き換えるため、
+ * 値に空白や引用符が含まれていても引数の区切りは変わりません。
+ * プレースホルダーを含まないテンプレートの場合は、末尾に ${path} を追加したものとして扱います。
+ *
+ * @param template コマンドテンプレート（例: "C:\Tools\TotalCmd.exe" /O /T "${dir}"）
+ * @param values プレースホルダーに埋め込む値
+ * @returns 展開したコマンド（テンプレートが不正な場合はnull）
+ */
+export function expandCommandTemplate(template: string, values: TemplateValues): CommandLine | null {
+    const parts = splitCommandLine(template);
+    if (!parts || parts.length === 0) {
+        return null;
+    }
+
+    const replacements: { [key: string]: string } = {
+        path: values.path,
+        dir: values.dir,
+        name: values.name,
+        line: String(values.line ?? 1),
+        column: String(values.column ?? 1)
+    };
+    const expanded = parts.map(part => part.replace(PLACEHOLDER_REGEX, (_, key: string) => replacements[key]));
+    if (!hasPlaceholders(template)) {
+        expanded.push(values.path);
+    }
+
+    const [command, ...args] = expanded;
+    return command ? { command, args } : null;
+}
@@ -0,0 +1,47 @@
+/**
+ * ファイルをOSの既定のアプリケーションで開くためのコマンドを作成するユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+import { CommandLine } from './commandTemplate';
+
+/**
+ * PowerShellの Invoke-Item でファイルを開くコマンドを作成します。
+ * スクリプトを -EncodedCommand で渡すため、パスに空白や記号が含まれていても
+ * cmd.exe や PowerShell のコマンドライン解析の影響を受けません。
+ * @param filePath 開くファイルのパス
+ * @returns コマンド
+ */
+export function buildInvokeItemCommand(filePath: string): CommandLine {
+    const script = `Invoke-Item -LiteralPath '${filePath.replace(/'/g, "''")}'`;
+    const encoded = Buffer.from(script, 'utf16le').toString('base64');
+    return {
+        command: 'powershell.exe',
+        args: ['-NoProfile', '-NonInteractive', '-EncodedCommand', encoded]
+    };
+}
+
+/**
+ * ファイルを既定のアプリケーションで開くコマンドを、試す順に作成します。
+ * - Windows: Invoke-Item
+ * - macOS: open
+ * - Linux: xdg-open、gio open
+ * @param platform 実行中のプラットフォーム（process.platform）
+ * @param filePath 開くファイルのパス
+ * @returns コマンドの配列（対応していないプラットフォームの場合は空）
+ */
+export function getDefaultApplicationCommands(platform: string, filePath: string): CommandLine[] {
+    switch (platform) {
+        case 'win32':
+            return [buildInvokeItemCommand(filePath)];
+        case 'darwin':
+            return [{ command: 'open', args: [filePath] }];
+        case 'linux':
+            return [
+                { command: 'xdg-open', args: [filePath] },
+                { command: 'gio', args: ['open', filePath] }
+            ];
+        default:
+            return [];
+    }
+}
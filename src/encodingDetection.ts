@@ -0,0 +1,294 @@
+/**
+ * テキストファイルの文字コードを判定するためのユーティリティ。
+ * UTF-8・UTF-16（BOMの有無を問わない）・Shift_JIS・EUC-JP・ISO-2022-JPを判定します。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * 判定した文字コード
+ */
+export type DetectedEncoding =
+    | 'ascii'
+    | 'utf8'
+    | 'utf8bom'
+    | 'utf16le'
+    | 'utf16be'
+    | 'shiftjis'
+    | 'eucjp'
+    | 'iso2022jp';
+
+// 表示用の文字コード名
+const ENCODING_LABELS: { [key in DetectedEncoding]: string } = {
+    ascii: 'ASCII',
+    utf8: 'UTF-8',
+    utf8bom: 'UTF-8 with BOM',
+    utf16le: 'UTF-16 LE',
+    utf16be: 'UTF-16 BE',
+    shiftjis: 'Shift_JIS',
+    eucjp: 'EUC-JP',
+    iso2022jp: 'ISO-2022-JP'
+};
+
+// VS Codeの files.encoding の値（ISO-2022-JPはVS Codeが対応していないため未定義）
+const VSCODE_ENCODINGS: { [key in DetectedEncoding]?: string } = {
+    ascii: 'utf8',
+    utf8: 'utf8',
+    utf8bom: 'utf8bom',
+    utf16le: 'utf16le',
+    utf16be: 'utf16be',
+    shiftjis: 'shiftjis',
+    eucjp: 'eucjp'
+};
+
+// TextDecoder のラベル
+const DECODER_LABELS: { [key in DetectedEncoding]: string } = {
+    ascii: 'utf-8',
+    utf8: 'utf-8',
+    utf8bom: 'utf-8',
+    utf16le: 'utf-16le',
+    utf16be: 'utf-16be',
+    shiftjis: 'shift_jis',
+    eucjp: 'euc-jp',
+    iso2022jp: 'iso-2022-jp'
+};
+
+// ISO-2022-JPのエスケープシーケンス（ESC $ @、ESC $ B、ESC ( B、ESC ( J）
+const ISO_2022_JP_ESCAPE_REGEX = /\x1B(\$[@B]|\([BJ])/;
+
+/**
+ * 文字コードの表示名を取得します。
+ * @param encoding 文字コード
+ * @returns 表示名
+ */
+export function getEncodingLabel(encoding: DetectedEncoding): string {
+    return ENCODING_LABELS[encoding];
+}
+
+/**
+ * VS Codeでファイルを開く際に指定する文字コードを取得します。
+ * @param encoding 文字コード
+ * @returns VS Codeの文字コード（対応していない場合はundefined）
+ */
+export function toVSCodeEncoding(encoding: DetectedEncoding): string | undefined {
+    return VSCODE_ENCODINGS[encoding];
+}
+
+/**
+ * 拡張機能内でバイト列をデコードする際に使用する TextDecoder のラベルを取得します。
+ * @param encoding 文字コード
+ * @returns TextDecoder のラベル
+ */
+export function toDecoderLabel(encoding: DetectedEncoding): string {
+    return DECODER_LABELS[encoding];
+}
+
+/**
+ * BOMのないUTF-16を、偶数・奇数位置のNULバイトの偏りから判定します。
+ * ASCII中心のテキストでは、LEは奇数位置、BEは偶数位置がNULになります。
+ * @param buffer ファイルの先頭のバイト列
+ * @returns UTF-16の場合はそのバイト順
+ */
+function detectUtf16WithoutBom(buffer: Uint8Array): 'utf16le' | 'utf16be' | undefined {
+    const pairs = Math.floor(buffer.length / 2);
+    if (pairs < 4) {
+        return undefined;
+    }
+    let evenNulls = 0;
+    let oddNulls = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+        if (buffer[i] === 0) {
+            evenNulls++;
+        }
+        if (buffer[i + 1] === 0) {
+            oddNulls++;
+        }
+    }
+
+    let encoding: 'utf16le' | 'utf16be';
+    if (oddNulls / pairs > 0.4 && evenNulls / pairs < 0.05) {
+        encoding = 'utf16le';
+    } else if (evenNulls / pairs > 0.4 && oddNulls / pairs < 0.05) {
+        encoding = 'utf16be';
+    } else {
+        return undefined;
+    }
+
+    // 上位バイトがNULの文字に制御文字が多い場合は、16ビット値を含むバイナリとみなす
+    const lowOffset = encoding === 'utf16le' ? 0 : 1;
+    let asciiChars = 0;
+    let controlChars = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+        if (buffer[i + 1 - lowOffset] !== 0) {
+            continue;
+        }
+        asciiChars++;
+        const low = buffer[i + lowOffset];
+        if (low < 0x20 && low !== 0x09 && low !== 0x0A && low !== 0x0D) {
+            controlChars++;
+        }
+    }
+    return controlChars / asciiChars > 0.1 ? undefined : encoding;
+}
+
+/**
+ * UTF-8として正しいバイト列かどうかを判定します。
+ * 読み込み範囲の末尾で途切れた文字は正しいものとして扱います。
+ * @param buffer ファイルの先頭のバイト列
+ * @returns 正しい場合はtrue
+ */
+export function isValidUtf8(buffer: Uint8Array): boolean {
+    let i = 0;
+    while (i < buffer.length) {
+        const byte = buffer[i];
+        let length: number;
+        if (byte < 0x80) {
+            i++;
+            continue;
+        } else if (byte >= 0xC2 && byte <= 0xDF) {
+            length = 2;
+        } else if (byte >= 0xE0 && byte <= 0xEF) {
+            length = 3;
+        } else if (byte >= 0xF0 && byte <= 0xF4) {
+            length = 4;
+        } else {
+            return false;
+        }
+        for (let j = 1; j < length; j++) {
+            if (i + j >= buffer.length) {
+                return true;
+            }
+            if ((buffer[i + j] & 0xC0) !== 0x80) {
+                return false;
+            }
+        }
+        i += length;
+    }
+    return true;
+}
+
+/**
+ * Shift_JISとして解釈し、正しいかどうかとかな文字の数を返します。
+ * @param buffer ファイルの先頭のバイト列
+ * @returns 正しいかどうかと、ひらがな・カタカナの数
+ */
+function scanShiftJis(buffer: Uint8Array): { valid: boolean; kana: number } {
+    let kana = 0;
+    let i = 0;
+    while (i < buffer.length) {
+        const byte = buffer[i];
+        if (byte < 0x80 || (byte >= 0xA1 && byte <= 0xDF)) {
+            i++;
+            continue;
+        }
+        if (!((byte >= 0x81 && byte <= 0x9F) || (byte >= 0xE0 && byte <= 0xFC))) {
+            return { valid: false, kana };
+        }
+        if (i + 1 >= buffer.length) {
+            break;
+        }
+        const trail = buffer[i + 1];
+        if (!((trail >= 0x40 && trail <= 0x7E) || (trail >= 0x80 && trail <= 0xFC))) {
+            return { valid: false, kana };
+        }
+        if (byte === 0x82 || byte === 0x83) {
+            kana++;
+        }
+        i += 2;
+    }
+    return { valid: true, kana };
+}
+
+/**
+ * EUC-JPとして解釈し、正しいかどうかとかな文字の数を返します。
+ * @param buffer ファイルの先頭のバイト列
+ * @returns 正しいかどうかと、ひらがな・カタカナの数
+ */
+function scanEucJp(buffer: Uint8Array): { valid: boolean; kana: number } {
+    const isEucByte = (b: number) => b >= 0xA1 && b <= 0xFE;
+    let kana = 0;
+    let i = 0;
+    while (i < buffer.length) {
+        const byte = buffer[i];
+        let length: number;
+        if (byte < 0x80) {
+            i++;
+            continue;
+        } else if (byte === 0x8E) {
+            length = 2;   // 半角カナ
+        } else if (byte === 0x8F) {
+            length = 3;   // 補助漢字
+        } else if (isEucByte(byte)) {
+            length = 2;
+        } else {
+            return { valid: false, kana };
+        }
+        for (let j = 1; j < length; j++) {
+            if (i + j >= buffer.length) {
+                return { valid: true, kana };
+            }
+            const next = buffer[i + j];
+            if (byte === 0x8E ? !(next >= 0xA1 && next <= 0xDF) : !isEucByte(next)) {
+                return { valid: false, kana };
+            }
+        }
+        if (byte === 0xA4 || byte === 0xA5) {
+            kana++;
+        }
+        i += length;
+    }
+    return { valid: true, kana };
+}
+
+/**
+ * テキストの文字コードを判定します。
+ * BOM、BOMのないUTF-16、ISO-2022-JP、ASCII、UTF-8、Shift_JIS/EUC-JPの順に確認し、
+ * Shift_JISとEUC-JPのどちらとしても正しい場合は、かな文字が多く現れる方を選びます。
+ *
+ * @param buffer ファイルの先頭のバイト列
+ * @returns 文字コード（テキストとして判定できない場合はundefined）
+ */
+export function detectEncoding(buffer: Uint8Array): DetectedEncoding | undefined {
+    if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+        return 'utf8bom';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFF && buffer[1] === 0xFE) {
+        return 'utf16le';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFE && buffer[1] === 0xFF) {
+        return 'utf16be';
+    }
+
+    const utf16 = detectUtf16WithoutBom(buffer);
+    if (utf16) {
+        return utf16;
+    }
+    if (buffer.includes(0)) {
+        return undefined;
+    }
+
+    // タブ・改行・ESC（ISO-2022-JPのエスケープ）以外の制御文字が多い場合はテキストとみなさない
+    const controlChars = buffer.filter(b => (b < 0x20 && b !== 0x09 && b !== 0x0A && b !== 0x0D && b !== 0x1B) || b === 0x7F);
+    if (controlChars.length / buffer.length > 0.2) {
+        return undefined;
+    }
+
+    if (buffer.every(byte => byte < 0x80)) {
+        return ISO_2022_JP_ESCAPE_REGEX.test(Buffer.from(buffer).toString('latin1')) ? 'iso2022jp' : 'ascii';
+    }
+    if (isValidUtf8(buffer)) {
+        return 'utf8';
+    }
+
+    const sjis = scanShiftJis(buffer);
+    const euc = scanEucJp(buffer);
+    if (sjis.valid && euc.valid) {
+        return euc.kana > sjis.kana ? 'eucjp' : 'shiftjis';
+    }
+    if (sjis.valid) {
+        return 'shiftjis';
+    }
+    if (euc.valid) {
+        return 'eucjp';
+    }
+    return undefined;
+}
@@ -0,0 +1,67 @@
+/**
+ * 名前付きのエクスプローラープロファイル（openInExplorer.profiles）を扱うためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * エクスプローラープロファイル
+ */
+export interface ExplorerProfile {
+    name: string;              // プロファイル名
+    platforms?: string[];      // 使用するプラットフォーム（win32 / darwin / linux、未指定の場合はすべて）
+    command?: string;          // コマンドテンプレート（ファイル・フォルダ共通）
+    fileCommand?: string;      // ファイルを開く場合のコマンドテンプレート
+    folderCommand?: string;    // フォルダを開く場合のコマンドテンプレート
+}
+
+/**
+ * OS標準のエクスプローラーを表す予約済みのプロファイル名
+ */
+export const SYSTEM_DEFAULT_PROFILE = '$system';
+
+/**
+ * 設定値のうち、有効なプロファイルのみを取り出します。
+ * @param profiles 設定値
+ * @returns 名前を持つプロファイルの配列
+ */
+export function sanitizeProfiles(profiles: unknown): ExplorerProfile[] {
+    if (!Array.isArray(profiles)) {
+        return [];
+    }
+    return profiles.filter((profile): profile is ExplorerProfile =>
+        typeof profile === 'object' && profile !== null &&
+        typeof profile.name === 'string' && profile.name.trim() !== '');
+}
+
+/**
+ * 指定されたプラットフォームで使用できるプロファイルを返します。
+ * @param profiles プロファイルの配列
+ * @param platform プラットフォーム（process.platform）
+ * @returns 使用できるプロファイルの配列
+ */
+export function filterProfilesForPlatform(profiles: ExplorerProfile[], platform: string): ExplorerProfile[] {
+    return profiles.filter(profile =>
+        !profile.platforms || profile.platforms.length === 0 || profile.platforms.includes(platform));
+}
+
+/**
+ * 名前でプロファイルを探します。
+ * @param profiles プロファイルの配列
+ * @param name プロファイル名
+ * @returns 見つかったプロファイル（見つからない場合はundefined）
+ */
+export function findProfile(profiles: ExplorerProfile[], name: string): ExplorerProfile | undefined {
+    return profiles.find(profile => profile.name === name);
+}
+
+/**
+ * 開く対象の種類に応じて、プロファイルのコマンドテンプレートを選択します。
+ * ファイル・フォルダ専用のテンプレートがない場合は共通のテンプレートを使用します。
+ * @param profile プロファイル
+ * @param isFile 開く対象がファイルかどうか
+ * @returns コマンドテンプレート（設定されていない場合は空文字列）
+ */
+export function selectProfileCommand(profile: ExplorerProfile, isFile: boolean): string {
+    const specific = isFile ? profile.fileCommand : profile.folderCommand;
+    return (specific && specific.trim()) || profile.command || '';
+}
@@ -1,12 +1,65 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import { Stats } from 'fs';
 import * as path from 'path';
-import { normalize } from 'path';
+import * as os from 'os';
+import { createHash, randomUUID } from 'crypto';
 import { access, constants } from 'fs/promises';
-
-const execPromise = promisify(exec);
+import { expandPathVariables, ExpansionContext } from './pathExpansion';
+import { sanitizePathText, translatePath, TranslationOptions } from './pathTranslation';
+import { findSimilarNames } from './suggestions';
+import { CommandLine, expandCommandTemplate, hasPlaceholders } from './commandTemplate';
+import { launchProcess } from './processLauncher';
+import { revealFileOnLinux } from './linuxFileManager';
+import { getDefaultApplicationCommands } from './defaultApplication';
+import { DEFAULT_RULES, FileRule, findMatchingRule, sanitizeRules } from './fileRules';
+import { detectFileType, ExtensionLists, FileTypeInfo } from './fileType';
+import { getEncodingLabel, toDecoderLabel, toVSCodeEncoding } from './encodingDetection';
+import {
+    ArchiveEntry,
+    ArchiveLocation,
+    findArchiveLocation,
+    getArchiveKind,
+    listArchiveEntries,
+    readArchiveEntry
+} from './archiveReader';
+import { resolveSymlinkChain, SymlinkChain } from './symlinkResolver';
+import { addBookmark, Bookmark, getBookmarkLabel, groupBookmarks, removeBookmark, sanitizeBookmarks } from './bookmarks';
+import { addHistoryEntry, clearHistory, HistoryEntry, sanitizeHistory, sortHistory, togglePinned } from './pathHistory';
+import { parseExternalRequest } from './externalRequest';
+import { classifyOpenInExplorerArgument, OpenInExplorerArgument } from './commandArguments';
+import { OpenInExplorerApi, OpenPathOptions, PathOpenedEvent, ResolvedPath, ResolvePathOptions } from './api';
+import { getActionMemoryKey, getAvailableActions, orderActions, PATH_ACTIONS, PathActionId } from './pathActions';
+import {
+    formatPreviewQuery,
+    parsePreviewQuery,
+    PreviewChunk,
+    PreviewMode,
+    PreviewQuery,
+    readByteRange,
+    readHeadLines,
+    readTailLines
+} from './filePreview';
+import {
+    ExplorerProfile,
+    filterProfilesForPlatform,
+    findProfile,
+    sanitizeProfiles,
+    selectProfileCommand,
+    SYSTEM_DEFAULT_PROFILE
+} from './explorerProfiles';
+import { applyPathMappings, getMappingLabel, PathMapping } from './pathMapping';
+import {
+    convertUriInput,
+    isNetworkInput,
+    NetworkMount,
+    parseGvfsShareName,
+    parseMacMountOutput,
+    parseProcMounts
+} from './uriInput';
+import { BaseDirectory, buildRelativeCandidates, hasParentSegments, isPathInside, RelativeCandidate } from './relativePath';
+import { findPathAtPosition, findPathCandidates, parsePositionSuffix, splitPathList, TextPosition } from './pathText';
 
 /**
  * 国際化対応のためのメッセージ
@@ -24,18 +77,50 @@ interface ExtensionConfig {
     customExplorerWindows: string;
     customExplorerMacOS: string;
     customExplorerLinux: string;
+    // 名前付きのエクスプローラープロファイル
+    profiles: ExplorerProfile[];
+    // 既定で使用するプロファイル名（空の場合は上記のカスタムエクスプローラーまたはOS標準）
+    defaultProfile: string;
+    // ファイルの種類ごとの動作を決める規則（組み込みの規則より先に評価）
+    rules: FileRule[];
     // テキストファイル判定のバイト数
     textFileScanBytes: number;
+    // テキストとして扱う拡張子（VS Codeに登録された言語の拡張子に追加）
+    textExtensions: string[];
+    // バイナリとして扱う拡張子
+    binaryExtensions: string[];
     // 大きなファイルの定義（バイト）
     largeFileSizeLimit: number;
+    // 大きなファイルのプレビューで読み込む行数
+    previewLineCount: number;
     // 大きなファイルを開く前に確認する
     confirmLargeFileOpen: boolean;
     // 相対パスを許可する
     allowRelativePaths: boolean;
+    // 相対パスの解決に使用する追加の基準フォルダ
+    relativePathSearchDirectories: string[];
+    // WindowsでLinuxパスを開く際に使用するWSLディストリビューション
+    wslDistribution: string;
+    // WSLでWindowsドライブがマウントされているフォルダ
+    wslMountRoot: string;
+    // サーバー・コンテナのパスをローカルのパスに書き換える規則
+    pathMappings: PathMapping[];
+    // 外部コマンドのタイムアウト（ミリ秒）
+    commandTimeout: number;
     // 言語設定（デフォルトは日本語）
     language: string;
     // シンボリックリンクの追跡
     followSymlinks: boolean;
+    // ドキュメント内のパスをリンクとして表示する
+    enableDocumentLinks: boolean;
+    // パスにホバーした際に情報を表示する
+    enableHover: boolean;
+    // 履歴に保存するパスの数（ピン留めした項目を除く）
+    historySize: number;
+    // 履歴の保存先（global: すべてのウィンドウで共有、workspace: ワークスペースごと）
+    historyScope: 'global' | 'workspace';
+    // 設定で共有するブックマーク
+    bookmarks: Bookmark[];
 }
 
 /**
@@ -74,13 +159,33 @@ const MESSAGES = {
         ja: 'シンボリックリンクの参照先に移動しますか？',
         en: 'Do you want to follow this symbolic link to its target?'
     },
-    COMMAND_INJECTION_RISK: {
-        ja: 'コマンドに危険な文字が含まれています。',
-        en: 'Command contains potentially dangerous characters.'
+    SYMLINK_DANGLING: {
+        ja: 'シンボリックリンクの参照先が存在しません：',
+        en: 'The symbolic link target does not exist:'
+    },
+    SYMLINK_LOOP: {
+        ja: 'シンボリックリンクが循環しています：',
+        en: 'The symbolic links form a loop:'
+    },
+    SYMLINK_HOPS: {
+        ja: '通過したリンク',
+        en: 'Links in the chain'
+    },
+    REVEAL_SYMLINK: {
+        ja: 'エクスプローラーでリンクを表示',
+        en: 'Reveal the link in the file manager'
     },
     CUSTOM_EXPLORER_INVALID: {
-        ja: 'カスタムエクスプローラーコマンドに無効な文字が含まれています。',
-        en: 'Custom explorer command contains invalid characters.'
+        ja: 'カスタムエクスプローラーコマンドの形式が正しくありません（引用符が閉じていないか、コマンドが空です）。',
+        en: 'Custom explorer command is malformed (unclosed quote or empty command).'
+    },
+    COMMAND_LAUNCH_FAILED: {
+        ja: 'コマンドを起動できませんでした：',
+        en: 'Could not launch command:'
+    },
+    COMMAND_TIMEOUT: {
+        ja: 'コマンドがタイムアウトしました。',
+        en: 'The command timed out.'
     },
     SETTINGS_UPDATED: {
         ja: 'open-in-explorer拡張機能の設定が更新されました。',
@@ -129,9 +234,390 @@ const MESSAGES = {
     STAY: {
         ja: 'リンク自体を開く',
         en: 'Open the link itself'
+    },
+    LINK_TOOLTIP: {
+        ja: 'エクスプローラーで開く',
+        en: 'Open in Explorer'
+    },
+    HOVER_EXISTS: {
+        ja: '存在します',
+        en: 'Exists'
+    },
+    HOVER_NOT_EXISTS: {
+        ja: '存在しません',
+        en: 'Does not exist'
+    },
+    HOVER_FILE: {
+        ja: 'ファイル',
+        en: 'File'
+    },
+    HOVER_FOLDER: {
+        ja: 'フォルダ',
+        en: 'Folder'
+    },
+    HOVER_SIZE: {
+        ja: 'サイズ',
+        en: 'Size'
+    },
+    HOVER_MODIFIED: {
+        ja: '更新日時',
+        en: 'Modified'
+    },
+    REVEAL_IN_EXPLORER: {
+        ja: 'エクスプローラーで表示',
+        en: 'Reveal in Explorer'
+    },
+    OPEN_PATH: {
+        ja: '開く',
+        en: 'Open'
+    },
+    BATCH_OPENED: {
+        ja: '開いたフォルダ',
+        en: 'Opened folders'
+    },
+    BATCH_MISSING: {
+        ja: '存在しないパス',
+        en: 'Missing paths'
+    },
+    BATCH_REJECTED: {
+        ja: '無効なパス',
+        en: 'Rejected paths'
+    },
+    BATCH_OPEN_FAILED: {
+        ja: 'エクスプローラーで開けませんでした',
+        en: 'Could not open in the explorer'
+    },
+    RELATIVE_PATH_NO_BASE: {
+        ja: '相対パスを解決するための基準フォルダがありません。ファイルまたはワークスペースを開いてください。',
+        en: 'There is no base folder to resolve the relative path against. Open a file or a workspace.'
+    },
+    PARENT_PATH_OUTSIDE_WORKSPACE: {
+        ja: '親フォルダへの参照（..）を含む相対パスは、ワークスペースフォルダの内側を指す必要があります。',
+        en: 'Relative paths containing parent references (..) must stay inside a workspace folder.'
+    },
+    SELECT_RELATIVE_CANDIDATE: {
+        ja: '相対パスに一致する候補が複数あります。開くパスを選択してください',
+        en: 'Multiple candidates match the relative path. Select the path to open'
+    },
+    AMBIGUOUS_RELATIVE_PATH: {
+        ja: '相対パスに一致する候補が複数あるため、開くパスを決められません：',
+        en: 'Multiple candidates match the relative path, so the path to open cannot be determined:'
+    },
+    BASE_DOCUMENT: {
+        ja: 'ドキュメントのフォルダ',
+        en: 'Document folder'
+    },
+    BASE_WORKSPACE: {
+        ja: 'ワークスペースフォルダ',
+        en: 'Workspace folder'
+    },
+    BASE_SEARCH: {
+        ja: '検索フォルダ',
+        en: 'Search folder'
+    },
+    UNDEFINED_VARIABLE: {
+        ja: 'パスに含まれる変数が定義されていません：',
+        en: 'The path contains an undefined variable:'
+    },
+    UNSUPPORTED_URI_SCHEME: {
+        ja: 'サポートされていないURIスキームです：',
+        en: 'Unsupported URI scheme:'
+    },
+    NETWORK_SHARE_NOT_MOUNTED: {
+        ja: 'ネットワーク共有がマウントされていません：',
+        en: 'The network share is not mounted:'
+    },
+    MAPPING_USED: {
+        ja: 'パスマッピングを使用しました：',
+        en: 'Used path mapping:'
+    },
+    OPEN_NEAREST_FOLDER: {
+        ja: '存在する親フォルダを開く',
+        en: 'Open nearest existing folder'
+    },
+    SHOW_SIMILAR: {
+        ja: '似たパスを探す',
+        en: 'Find similar paths'
+    },
+    SELECT_SIMILAR_PATH: {
+        ja: '開くパスを選択してください',
+        en: 'Select the path to open'
+    },
+    SIMILAR_SIBLINGS: {
+        ja: '似た名前',
+        en: 'Similar names'
+    },
+    WORKSPACE_MATCHES: {
+        ja: 'ワークスペース内の同名ファイル',
+        en: 'Files with the same name in the workspace'
+    },
+    BOOKMARK_UNREACHABLE: {
+        ja: '応答がありません',
+        en: 'Unreachable'
+    },
+    BOOKMARK_SHARED: {
+        ja: '設定で共有されたブックマーク',
+        en: 'Shared bookmark from settings'
+    },
+    BOOKMARK_PERSONAL: {
+        ja: '個人用のブックマーク',
+        en: 'Personal bookmark'
+    },
+    BOOKMARK_ENTER_PATH: {
+        ja: 'ブックマークに追加するパスを入力してください',
+        en: 'Enter a path to bookmark'
+    },
+    BOOKMARK_SELECT_GROUP: {
+        ja: '追加先のグループを選択してください',
+        en: 'Select a group for the bookmark'
+    },
+    BOOKMARK_NO_GROUP: {
+        ja: 'グループなし',
+        en: 'No group'
+    },
+    BOOKMARK_NEW_GROUP: {
+        ja: '新しいグループ...',
+        en: 'New group...'
+    },
+    BOOKMARK_ENTER_GROUP: {
+        ja: 'グループ名を入力してください',
+        en: 'Enter a group name'
+    },
+    BOOKMARK_ADDED: {
+        ja: 'ブックマークに追加しました',
+        en: 'Added to bookmarks'
+    },
+    EXTERNAL_LINK_CONFIRM: {
+        ja: '外部のリンクからパスを開こうとしています。開いてもよろしいですか？',
+        en: 'An external link is trying to open a path. Do you want to open it?'
+    },
+    EXTERNAL_LINK_INVALID: {
+        ja: 'リンクの形式が正しくありません：',
+        en: 'The link is malformed:'
+    },
+    EXTERNAL_LINK_PROFILE: {
+        ja: 'プロファイル：',
+        en: 'Profile:'
+    },
+    SELECT_RECENT_PATH: {
+        ja: '開くパスを選択してください（入力して絞り込み）',
+        en: 'Select a path to open (type to filter)'
+    },
+    HISTORY_PIN: {
+        ja: 'ピン留め',
+        en: 'Pin'
+    },
+    HISTORY_UNPIN: {
+        ja: 'ピン留めを解除',
+        en: 'Unpin'
+    },
+    HISTORY_CLEAR: {
+        ja: '履歴を消去（ピン留めした項目は残ります）',
+        en: 'Clear history (pinned entries are kept)'
+    },
+    HISTORY_TARGET_MISSING: {
+        ja: '見つかりません',
+        en: 'Not found'
+    },
+    SELECT_PATH_ACTION: {
+        ja: '実行する操作を選択してください',
+        en: 'Select an action'
+    },
+    LAST_USED_ACTION_MARK: {
+        ja: '前回使用',
+        en: 'last used'
+    },
+    ACTION_REVEAL: {
+        ja: 'エクスプローラーで表示',
+        en: 'Reveal in File Manager'
+    },
+    ACTION_OPEN_IN_VSCODE: {
+        ja: 'VS Codeで開く',
+        en: 'Open in VS Code'
+    },
+    ACTION_REVEAL_IN_SIDE_BAR: {
+        ja: 'VS Codeのエクスプローラービューで表示',
+        en: 'Reveal in VS Code Explorer View'
+    },
+    ACTION_OPEN_IN_NEW_WINDOW: {
+        ja: 'フォルダを新しいウィンドウで開く',
+        en: 'Open Folder in New Window'
+    },
+    ACTION_ADD_TO_WORKSPACE: {
+        ja: 'フォルダをワークスペースに追加',
+        en: 'Add Folder to Workspace'
+    },
+    ACTION_OPEN_TERMINAL: {
+        ja: 'フォルダで統合ターミナルを開く',
+        en: 'Open Integrated Terminal Here'
+    },
+    ACTION_COPY_ABSOLUTE: {
+        ja: '絶対パスをコピー',
+        en: 'Copy Absolute Path'
+    },
+    ACTION_COPY_RELATIVE: {
+        ja: '相対パスをコピー',
+        en: 'Copy Relative Path'
+    },
+    ACTION_COPY_URI: {
+        ja: 'URIをコピー',
+        en: 'Copy URI'
+    },
+    PATH_COPIED: {
+        ja: 'コピーしました',
+        en: 'Copied'
+    },
+    ADD_TO_WORKSPACE_ERROR: {
+        ja: 'フォルダをワークスペースに追加できませんでした。',
+        en: 'Could not add the folder to the workspace.'
+    },
+    PATH_ACTION_ERROR: {
+        ja: '操作の実行中にエラーが発生しました：',
+        en: 'An error occurred while running the action:'
+    },
+    ARCHIVE_READ_ERROR: {
+        ja: 'アーカイブの読み込み中にエラーが発生しました：',
+        en: 'An error occurred while reading the archive:'
+    },
+    ARCHIVE_ENTRY_NOT_FOUND: {
+        ja: 'アーカイブ内に見つかりません：',
+        en: 'Not found in the archive:'
+    },
+    SELECT_ARCHIVE_ENTRY: {
+        ja: '開くエントリを選択してください',
+        en: 'Select an entry to open'
+    },
+    ARCHIVE_ENTRY_EXTRACTED: {
+        ja: '一時フォルダに展開しました',
+        en: 'Extracted to a temporary folder'
+    },
+    ARCHIVE_EXTRACT_ERROR: {
+        ja: 'エントリを展開できませんでした：',
+        en: 'Could not extract the entry:'
+    },
+    PREVIEW_LARGE_FILE: {
+        ja: '先頭・末尾をプレビュー',
+        en: 'Preview head/tail'
+    },
+    SELECT_PREVIEW_MODE: {
+        ja: 'プレビューする範囲を選択してください',
+        en: 'Select the part of the file to preview'
+    },
+    PREVIEW_TAIL: {
+        ja: '末尾の行',
+        en: 'Last lines'
+    },
+    PREVIEW_HEAD: {
+        ja: '先頭の行',
+        en: 'First lines'
+    },
+    PREVIEW_RANGE: {
+        ja: 'バイト範囲を指定',
+        en: 'Byte range'
+    },
+    PREVIEW_RANGE_PROMPT: {
+        ja: 'プレビューするバイト範囲を「開始-終了」の形式で入力してください',
+        en: 'Enter the byte range to preview as "start-end"'
+    },
+    PREVIEW_RANGE_INVALID: {
+        ja: '「開始-終了」の形式で数値を入力してください（終了は省略可能）',
+        en: 'Enter numbers as "start-end" (end is optional)'
+    },
+    PREVIEW_READ_ERROR: {
+        ja: 'プレビューの読み込み中にエラーが発生しました：',
+        en: 'An error occurred while reading the preview:'
+    },
+    PREVIEW_NOT_ACTIVE: {
+        ja: 'プレビューが開かれていません',
+        en: 'No preview is open'
+    },
+    PREVIEW_FOLLOW_STARTED: {
+        ja: 'ファイルの追記を追従しています',
+        en: 'Following appended lines'
+    },
+    PREVIEW_FOLLOW_STOPPED: {
+        ja: 'ファイルの追記の追従を停止しました',
+        en: 'Stopped following appended lines'
+    },
+    PREVIEW_FOLLOW_TAIL_ONLY: {
+        ja: '追従は末尾のプレビューでのみ使用できます',
+        en: 'Follow mode is only available for tail previews'
+    },
+    ENCODING_DETECTED: {
+        ja: '検出した文字コードで開きました',
+        en: 'Opened with the detected encoding'
+    },
+    ENCODING_UNSUPPORTED: {
+        ja: 'VS Codeが対応していない文字コードです',
+        en: 'Encoding not supported by VS Code'
+    },
+    OPEN_WITH_DEFAULT_APP: {
+        ja: '既定のアプリで開く',
+        en: 'Open with Default App'
+    },
+    OPEN_WITH_ERROR: {
+        ja: '指定されたエディタでファイルを開けませんでした：',
+        en: 'Could not open the file with the specified editor:'
+    },
+    DEFAULT_APP_OPEN_ERROR: {
+        ja: '既定のアプリケーションでファイルを開けませんでした',
+        en: 'Could not open the file with the default application'
+    },
+    PROFILE_NOT_FOUND: {
+        ja: '指定されたプロファイルが見つかりません：',
+        en: 'The specified profile was not found:'
+    },
+    SELECT_PROFILE: {
+        ja: '使用するエクスプローラーを選択してください',
+        en: 'Select the explorer to use'
+    },
+    SYSTEM_DEFAULT_EXPLORER: {
+        ja: 'OS標準のエクスプローラー',
+        en: 'System default explorer'
+    },
+    DEFAULT_PROFILE_MARK: {
+        ja: '既定',
+        en: 'Default'
+    },
+    SHOW_DETAILS: {
+        ja: '詳細を表示',
+        en: 'Show details'
     }
 };
 
+/**
+ * 詳細なログを出力するための出力チャンネル（必要になった時点で作成）
+ */
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * 拡張機能の出力チャンネルを取得します。
+ * @returns 出力チャンネル
+ */
+function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('Open in Explorer');
+    }
+    return outputChannel;
+}
+
+// テキストとして扱う拡張子の既定値
+const DEFAULT_TEXT_EXTENSIONS = [
+    '.txt', '.md', '.json', '.js', '.ts', '.html', '.css', '.xml',
+    '.csv', '.yml', '.yaml', '.ini', '.conf', '.cfg', '.log',
+    '.c', '.cpp', '.h', '.hpp', '.java', '.py', '.rb', '.php',
+    '.sh', '.bash', '.ps1', '.bat', '.cmd', '.sql', '.diff'
+];
+
+// バイナリとして扱う拡張子の既定値
+const DEFAULT_BINARY_EXTENSIONS = [
+    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+    '.zip', '.rar', '.tar', '.gz', '.7z', '.exe', '.dll', '.so',
+    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff', '.webp',
+    '.mp3', '.mp4', '.avi', '.mov', '.mkv', '.wav', '.flac',
+    '.db', '.sqlite', '.mdb'
+];
+
 /**
  * 拡張機能の設定を読み込みます。
  * @returns 現在の拡張機能設定
@@ -142,12 +628,28 @@ function loadConfig(): ExtensionConfig {
         customExplorerWindows: config.get<string>('customExplorerWindows', ''),
         customExplorerMacOS: config.get<string>('customExplorerMacOS', ''),
         customExplorerLinux: config.get<string>('customExplorerLinux', ''),
+        profiles: sanitizeProfiles(config.get<unknown>('profiles', [])),
+        defaultProfile: config.get<string>('defaultProfile', ''),
+        rules: sanitizeRules(config.get<unknown>('rules', [])),
         textFileScanBytes: config.get<number>('textFileScanBytes', 512),
+        textExtensions: config.get<string[]>('textExtensions', DEFAULT_TEXT_EXTENSIONS),
+        binaryExtensions: config.get<string[]>('binaryExtensions', DEFAULT_BINARY_EXTENSIONS),
         largeFileSizeLimit: config.get<number>('largeFileSizeLimit', 5 * 1024 * 1024), // 5MB
+        previewLineCount: Math.max(1, config.get<number>('previewLineCount', 1000)),
         confirmLargeFileOpen: config.get<boolean>('confirmLargeFileOpen', true),
         allowRelativePaths: config.get<boolean>('allowRelativePaths', false),
+        relativePathSearchDirectories: config.get<string[]>('relativePathSearchDirectories', []),
+        wslDistribution: config.get<string>('wslDistribution', ''),
+        wslMountRoot: config.get<string>('wslMountRoot', '/mnt/'),
+        pathMappings: config.get<PathMapping[]>('pathMappings', []),
+        commandTimeout: config.get<number>('commandTimeout', 10000),
         language: config.get<string>('language', 'ja'),
-        followSymlinks: config.get<boolean>('followSymlinks', true)
+        followSymlinks: config.get<boolean>('followSymlinks', true),
+        enableDocumentLinks: config.get<boolean>('enableDocumentLinks', true),
+        enableHover: config.get<boolean>('enableHover', true),
+        historySize: Math.max(0, config.get<number>('historySize', 50)),
+        historyScope: config.get<string>('historyScope', 'global') === 'workspace' ? 'workspace' : 'global',
+        bookmarks: sanitizeBookmarks(config.get<unknown>('bookmarks', []))
     };
 }
 
@@ -162,218 +664,184 @@ function getLocalizedMessage(message: LocalizedMessage, language: string): strin
 }
 
 /**
- * コマンドをセキュアに実行するための引数エスケープ関数
- * @param arg エスケープする引数
- * @returns エスケープされた引数
+ * コマンドをシェルを介さずに引数の配列で実行し、stdoutおよびstderrの内容をログに出力します。
+ * 引数はエスケープせずにそのままプロセスに渡されるため、パスに空白や記号が含まれていても安全です。
+ * 
+ * @param commandBase 実行するコマンド
+ * @param args コマンド引数の配列
+ * @param detached 終了を待たずに切り離すかどうか（ファイルマネージャーなど終了しないプロセス向け）
+ * @param exitWaitMs 切り離す場合に、終了コードを確認するため終了を待つ時間（ミリ秒、任意）
+ * @returns 実行結果のPromise
  */
-function escapeShellArg(arg: string): string {
-    // Windows: ダブルクォートでエスケープ
-    if (process.platform === 'win32') {
-        // Windowsはダブルクォートをエスケープするためにもうひとつのダブルクォートを追加
-        return `"${arg.replace(/"/g, '""')}"`;
+async function executeCommand(
+    commandBase: string, 
+    args: string[],
+    detached: boolean = false,
+    exitWaitMs?: number
+): Promise<{success: boolean, output?: string, error?: string}> {
+    const config = loadConfig();
+    const result = await launchProcess(commandBase, args, {
+        timeoutMs: config.commandTimeout,
+        detached,
+        exitWaitMs
+    });
+    
+    if (result.output) {
+        console.log('コマンド出力:', result.output);
+    }
+    
+    if (result.error) {
+        console.error('コマンドエラー出力:', result.error);
+    }
+    
+    if (result.timedOut) {
+        return {
+            success: false,
+            output: result.output,
+            error: getLocalizedMessage(MESSAGES.COMMAND_TIMEOUT, config.language)
+        };
     }
     
-    // Unix/Linux/macOS: シングルクォートでエスケープ
-    // シングルクォートはシングルクォートを閉じて、バックスラッシュでエスケープしてから再度開く
-    return `'${arg.replace(/'/g, "'\\''")}'`;
+    return {
+        success: result.success,
+        output: result.output,
+        error: result.error
+    };
 }
 
 /**
- * カスタムエクスプローラーコマンドを検証します
- * @param command 検証するコマンド
- * @returns 有効な場合はtrue、そうでなければfalse
+ * エクスプローラー/ファインダーを切り離して起動します。起動に失敗した場合はエラーを通知します。
+ * @param command 実行するコマンド
+ * @param args コマンド引数の配列
+ * @returns 起動できた場合はtrue
  */
-function validateCustomExplorer(command: string): boolean {
-    // 明らかに危険なパターンをチェック
-    const dangerousPatterns = [
-        /[;&|><$`\\]/,         // シェル特殊文字
-        /(curl|wget|nc|ncat)/i,  // ネットワークツール
-        /(bash|sh|cmd|powershell)/i,  // シェル実行
-        /(rm|rmdir|del|format)/i,  // 削除コマンド
-    ];
-    
-    return !dangerousPatterns.some(pattern => pattern.test(command));
+async function launchExplorer(command: string, args: string[]): Promise<boolean> {
+    const result = await executeCommand(command, args, true);
+    if (!result.success) {
+        handleError(
+            `${getLocalizedMessage(MESSAGES.COMMAND_LAUNCH_FAILED, loadConfig().language)} ${command}`,
+            { message: result.error }
+        );
+    }
+    return result.success;
 }
 
 /**
- * シェルコマンドを非同期で実行し、stdoutおよびstderrの内容をログに出力します。
- * 強化されたコマンドインジェクション対策を含みます。
- * 
- * @param commandBase 実行するコマンドのベース部分
- * @param args コマンド引数の配列
- * @returns 実行結果のPromise
+ * カスタムエクスプローラーのコマンドテンプレートを展開して起動します。
+ * テンプレートでは ${path}・${dir}・${name}・${line}・${column} を使用できます。
+ * @param template コマンドテンプレート
+ * @param selectedText 開くパス
+ * @param isFile パスがファイルであるかどうか
+ * @param position 行・列の位置（任意）
+ * @returns 起動できた場合はtrue
  */
-async function executeCommand(
-    commandBase: string, 
-    args: string[]
-): Promise<{success: boolean, output?: string, error?: string}> {
-    try {
-        // カスタムコマンドの検証
-        if (commandBase !== 'explorer.exe' && 
-            commandBase !== 'open' && 
-            commandBase !== 'xdg-open' && 
-            !validateCustomExplorer(commandBase)) {
-            return {
-                success: false,
-                error: getLocalizedMessage(MESSAGES.CUSTOM_EXPLORER_INVALID, loadConfig().language)
-            };
-        }
-        
-        // 引数をエスケープ
-        const escapedArgs = args.map(arg => escapeShellArg(arg));
-        
-        // コマンドを構築
-        const command = `${commandBase} ${escapedArgs.join(' ')}`;
-        
-        const { stdout, stderr } = await execPromise(command);
-        
-        if (stdout) {
-            console.log('コマンド出力:', stdout);
-        }
-        
-        if (stderr) {
-            console.error('コマンドエラー出力:', stderr);
-            return {
-                success: true,
-                output: stdout,
-                error: stderr
-            };
+async function launchExplorerTemplate(
+    template: string,
+    selectedText: string,
+    isFile: boolean,
+    position?: TextPosition
+): Promise<boolean> {
+    const commandLine = expandCommandTemplate(template, {
+        path: selectedText,
+        dir: isFile ? path.dirname(selectedText) : selectedText,
+        name: path.basename(selectedText),
+        line: position?.line,
+        column: position?.column
+    });
+    if (!commandLine) {
+        handleError(MESSAGES.CUSTOM_EXPLORER_INVALID);
+        return false;
+    }
+    return launchExplorer(commandLine.command, commandLine.args);
+}
+
+/**
+ * 既定のアプリケーションで開くコマンドを順に試します。すべて失敗した場合はエラーを通知します。
+ * @param commands 試すコマンド（優先順）
+ * @param detached 終了を待たずに切り離すかどうか
+ * @param exitWaitMs 切り離す場合に、終了コードを確認するため終了を待つ時間（ミリ秒、任意）
+ * @returns いずれかのコマンドで開けた場合はtrue
+ */
+async function launchDefaultApplication(commands: CommandLine[], detached: boolean, exitWaitMs?: number): Promise<boolean> {
+    let lastError: string | undefined;
+    for (const commandLine of commands) {
+        const result = await executeCommand(commandLine.command, commandLine.args, detached, exitWaitMs);
+        if (result.success) {
+            return true;
         }
-        
-        return {
-            success: true,
-            output: stdout
-        };
-    } catch (error: any) {
-        console.error('コマンド実行エラー:', error);
-        return {
-            success: false,
-            error: error.message
-        };
+        lastError = result.error;
     }
+    handleError(MESSAGES.DEFAULT_APP_OPEN_ERROR, { message: lastError });
+    return false;
 }
 
+// シグネチャの判定に必要なバイト数（tarのシグネチャはオフセット257）
+const SIGNATURE_SCAN_BYTES = 512;
+
+// VS Codeの言語の登録から取得したテキストの拡張子（拡張機能の追加・削除時に再取得）
+let languageExtensions: Set<string> | undefined;
+
 /**
- * ファイルのMIMEタイプを判定します
- * @param filePath ファイルパス
- * @returns MIMEタイプ文字列
+ * VS Codeに登録されている言語の拡張子を取得します。
+ * 組み込み・インストール済みの拡張機能が contributes.languages で登録した拡張子を使用します。
+ * @returns 拡張子（小文字、先頭の . なし）のセット
  */
-async function determineMimeType(filePath: string): Promise<string> {
-    try {
-        const fileExtension = path.extname(filePath).toLowerCase();
-        
-        // 一般的なテキストファイル拡張子
-        const textExtensions = [
-            '.txt', '.md', '.json', '.js', '.ts', '.html', '.css', '.xml',
-            '.csv', '.yml', '.yaml', '.ini', '.conf', '.cfg', '.log',
-            '.c', '.cpp', '.h', '.hpp', '.java', '.py', '.rb', '.php',
-            '.sh', '.bash', '.ps1', '.bat', '.cmd', '.sql', '.diff'
-        ];
-        
-        if (textExtensions.includes(fileExtension)) {
-            return 'text/plain';
+function getLanguageExtensions(): Set<string> {
+    if (languageExtensions) {
+        return languageExtensions;
+    }
+    languageExtensions = new Set<string>();
+    for (const extension of vscode.extensions.all) {
+        const languages = extension.packageJSON?.contributes?.languages;
+        if (!Array.isArray(languages)) {
+            continue;
         }
-        
-        // バイナリと判断される一般的な拡張子
-        const binaryExtensions = [
-            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-            '.zip', '.rar', '.tar', '.gz', '.7z', '.exe', '.dll', '.so',
-            '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff', '.webp',
-            '.mp3', '.mp4', '.avi', '.mov', '.mkv', '.wav', '.flac',
-            '.db', '.sqlite', '.mdb'
-        ];
-        
-        if (binaryExtensions.includes(fileExtension)) {
-            return 'application/octet-stream';
+        for (const language of languages) {
+            for (const ext of Array.isArray(language?.extensions) ? language.extensions : []) {
+                if (typeof ext === 'string') {
+                    languageExtensions.add(ext.replace(/^\./, '').toLowerCase());
+                }
+            }
         }
-        
-        // 拡張子で判断できない場合は内容を確認
-        return await isTextFile(filePath) ? 'text/plain' : 'application/octet-stream';
-    } catch (error) {
-        console.error('MIMEタイプ判定エラー:', error);
-        return 'application/octet-stream'; // エラー時はバイナリと仮定
     }
+    return languageExtensions;
 }
 
 /**
- * 指定されたファイルがテキストファイルかどうかを判定します。
- * 改良版のロジックを使用します。
- * 
- * @param filePath ファイルのパス。
- * @param bytesToRead 判定に使用するバイト数（デフォルト: 4096）。
- * @returns テキストファイルなら true、そうでなければ false を返す Promise。
+ * 設定とVS Codeの言語の登録から、拡張子による判定に使用する一覧を作成します。
+ * @param config 拡張機能の設定
+ * @returns 拡張子の一覧
+ */
+function getExtensionLists(config: ExtensionConfig): ExtensionLists {
+    return {
+        textExtensions: [...config.textExtensions, ...getLanguageExtensions()],
+        binaryExtensions: config.binaryExtensions
+    };
+}
+
+/**
+ * ファイルの先頭を読み込み、シグネチャ・拡張子・内容からファイルの種類を判定します。
+ * @param filePath ファイルパス
+ * @returns ファイルの種類
  */
-async function isTextFile(filePath: string, bytesToRead: number = 4096): Promise<boolean> {
+async function detectFileTypeOfPath(filePath: string): Promise<FileTypeInfo> {
+    const config = loadConfig();
     try {
-        const config = loadConfig();
-        bytesToRead = config.textFileScanBytes || bytesToRead;
-        
+        const bytesToRead = Math.max(config.textFileScanBytes || 4096, SIGNATURE_SCAN_BYTES);
         const fileHandle = await fs.open(filePath, 'r');
-        const buffer = Buffer.alloc(bytesToRead);
-        const { bytesRead } = await fileHandle.read(buffer, 0, bytesToRead, 0);
-        await fileHandle.close();
-        
-        // UTF-8/16/32 BOMチェック
-        if (bytesRead >= 2) {
-            // UTF-8 BOM: EF BB BF
-            if (buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
-                return true;
-            }
-            
-            // UTF-16 BE BOM: FE FF
-            if (buffer[0] === 0xFE && buffer[1] === 0xFF) {
-                return true;
-            }
-            
-            // UTF-16 LE BOM: FF FE
-            if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
-                // UTF-32 LE BOMと区別
-                if (buffer[2] !== 0x00 || buffer[3] !== 0x00) {
-                    return true;
-                }
-            }
-            
-            // UTF-32 BE BOM: 00 00 FE FF
-            if (buffer[0] === 0x00 && buffer[1] === 0x00 && 
-                buffer[2] === 0xFE && buffer[3] === 0xFF) {
-                return true;
-            }
-        }
-        
-        // null バイトが見つかった場合はバイナリファイルと見なす
-        const hasNullByte = buffer.slice(0, bytesRead).includes(0);
-        
-        if (hasNullByte) {
-            return false;
-        }
-        
-        // コントロール文字の分析
-        const controlChars = buffer.slice(0, bytesRead).filter(b => {
-            // タブ(9)、LF(10)、CR(13)は許可
-            return (b < 32 && b !== 9 && b !== 10 && b !== 13) || b === 127;
-        });
-        
-        const controlCharRatio = controlChars.length / bytesRead;
-        
-        // 20%以上がコントロール文字ならバイナリとみなす
-        if (controlCharRatio > 0.2) {
-            return false;
-        }
-        
-        // ASCII範囲外の文字の分析（UTF-8の可能性）
-        const nonAsciiChars = buffer.slice(0, bytesRead).filter(b => b > 127);
-        const nonAsciiRatio = nonAsciiChars.length / bytesRead;
-        
-        // 非ASCIIが90%以上ならバイナリの可能性が高い
-        if (nonAsciiRatio > 0.9) {
-            return false;
+        let buffer: Buffer;
+        try {
+            const { bytesRead, buffer: data } = await fileHandle.read(Buffer.alloc(bytesToRead), 0, bytesToRead, 0);
+            buffer = data.subarray(0, bytesRead);
+        } finally {
+            await fileHandle.close();
         }
-        
-        // 上記の条件を通過したらテキストファイルと判断
-        return true;
+
+        return detectFileType(buffer, path.extname(filePath), getExtensionLists(config));
     } catch (error) {
-        console.error('テキストファイル判定エラー:', error);
-        return false;
+        console.error('ファイルの種類の判定エラー:', error);
+        // エラー時はバイナリと仮定
+        return { category: 'binary', mimeType: 'application/octet-stream', description: 'Binary', source: 'content' };
     }
 }
 
@@ -392,6 +860,22 @@ async function fileExists(filePath: string): Promise<boolean> {
     }
 }
 
+/**
+ * ファイルサイズを人が読みやすい形式に変換します。
+ * @param bytes バイト数
+ * @returns 単位付きのサイズ文字列
+ */
+function formatFileSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let size = bytes;
+    let unitIndex = 0;
+    while (size >= 1024 && unitIndex < units.length - 1) {
+        size /= 1024;
+        unitIndex++;
+    }
+    return unitIndex === 0 ? `${size} ${units[0]}` : `${size.toFixed(2)} ${units[unitIndex]}`;
+}
+
 /**
  * パスをサニタイズします。
  * 
@@ -399,16 +883,21 @@ async function fileExists(filePath: string): Promise<boolean> {
  * @returns サニタイズされたパス。
  */
 function sanitizePath(inputPath: string): string {
-    // トリミングして余分な空白を削除
-    let sanitized = inputPath.trim();
-    
-    // 引用符を削除
-    sanitized = sanitized.replace(/["']/g, '');
-    
-    // 正規化（../などの解決）
-    sanitized = normalize(sanitized);
-    
-    return sanitized;
+    return sanitizePathText(inputPath, process.platform);
+}
+
+/**
+ * パスの変換に使用するオプションを設定から取得します。
+ * @param platform 変換先のプラットフォーム。
+ * @returns パスの変換オプション
+ */
+function getTranslationOptions(platform: string): TranslationOptions {
+    const config = loadConfig();
+    return {
+        platform,
+        wslDistribution: config.wslDistribution,
+        wslMountRoot: config.wslMountRoot
+    };
 }
 
 /**
@@ -434,9 +923,18 @@ interface PlatformHandler {
      * 指定されたパスを適切なOSコマンドを使用して開きます。
      * @param selectedText 開くパス。
      * @param isFile パスがファイルであるかどうかの真偽値。
-     * @param customExplorer カスタムエクスプローラーコマンド（設定されている場合）。
+     * @param customExplorer カスタムエクスプローラーのコマンドテンプレート（設定されている場合）。
+     * @param position テンプレートの ${line}・${column} に使用する位置（任意）。
+     * @returns 開けた場合はtrue（失敗した場合はエラーを通知済み）。
+     */
+    openPath(selectedText: string, isFile: boolean, customExplorer?: string, position?: TextPosition): Promise<boolean>;
+
+    /**
+     * 指定されたパスをOSの既定のアプリケーションで開きます。
+     * @param selectedText 開くパス。
+     * @returns 開けた場合はtrue（失敗した場合はエラーを通知済み）。
      */
-    openPath(selectedText: string, isFile: boolean, customExplorer?: string): Promise<void>;
+    openWithDefaultApp(selectedText: string): Promise<boolean>;
 }
 
 /**
@@ -460,7 +958,8 @@ class WindowsHandler implements PlatformHandler {
         }
         
         // 相対パスの検証（許可されている場合）
-        if (allowRelative && !selectedText.includes('..')) {
+        // 親フォルダへの参照（..）はワークスペースの内側に解決されるかを解決時に確認する
+        if (allowRelative) {
             return null;
         }
         
@@ -468,30 +967,33 @@ class WindowsHandler implements PlatformHandler {
     }
     
     normalizePath(selectedText: string): string {
-        // Windowsパスの正規化
-        return path.normalize(selectedText).replace(/\//g, '\\');
+        // WSL・POSIX形式のパスをWindows形式に変換してから正規化
+        const translated = translatePath(selectedText, getTranslationOptions('win32'));
+        return path.normalize(translated).replace(/\//g, '\\');
     }
 
-    async openPath(selectedText: string, isFile: boolean, customExplorer?: string): Promise<void> {
-        const config = loadConfig();
-        const language = config.language;
-        
+    async openPath(selectedText: string, isFile: boolean, customExplorer?: string, position?: TextPosition): Promise<boolean> {
         if (customExplorer && customExplorer.trim() !== '') {
             // カスタムエクスプローラーコマンドを使用
-            if (isFile) {
-                await executeCommand(customExplorer, ['/select,', selectedText]);
-            } else {
-                await executeCommand(customExplorer, [selectedText]);
-            }
+            // プレースホルダーのないテンプレートは従来どおり /select, を付けてファイルを選択する
+            const template = isFile && !hasPlaceholders(customExplorer)
+                ? `${customExplorer} /select, \${path}`
+                : customExplorer;
+            return launchExplorerTemplate(template, selectedText, isFile, position);
         } else {
             // デフォルトのエクスプローラーを使用
             if (isFile) {
-                await executeCommand('explorer.exe', ['/select,', selectedText]);
+                return launchExplorer('explorer.exe', ['/select,', selectedText]);
             } else {
-                await executeCommand('explorer.exe', [selectedText]);
+                return launchExplorer('explorer.exe', [selectedText]);
             }
         }
     }
+
+    async openWithDefaultApp(selectedText: string): Promise<boolean> {
+        // Invoke-Itemは起動後すぐに終了するため、ウィンドウを表示せずに終了を待つ
+        return launchDefaultApplication(getDefaultApplicationCommands('win32', selectedText), false);
+    }
 }
 
 /**
@@ -503,12 +1005,13 @@ class MacOSHandler implements PlatformHandler {
     
     validatePath(selectedText: string, allowRelative: boolean): LocalizedMessage | null {
         // 絶対パス検証
-        if (this.ABSOLUTE_PATH_REGEX.test(selectedText) && !selectedText.includes('..')) {
+        if (this.ABSOLUTE_PATH_REGEX.test(selectedText) && !hasParentSegments(selectedText)) {
             return null;
         }
         
         // 相対パスの検証（許可されている場合）
-        if (allowRelative && !selectedText.includes('..')) {
+        // 親フォルダへの参照（..）はワークスペースの内側に解決されるかを解決時に確認する
+        if (allowRelative && !path.isAbsolute(selectedText)) {
             return null;
         }
         
@@ -520,22 +1023,23 @@ class MacOSHandler implements PlatformHandler {
         return path.normalize(selectedText);
     }
 
-    async openPath(selectedText: string, isFile: boolean, customExplorer?: string): Promise<void> {
-        const config = loadConfig();
-        const language = config.language;
-        
+    async openPath(selectedText: string, isFile: boolean, customExplorer?: string, position?: TextPosition): Promise<boolean> {
         if (customExplorer && customExplorer.trim() !== '') {
             // カスタムエクスプローラーコマンドを使用
-            await executeCommand(customExplorer, [selectedText]);
+            return launchExplorerTemplate(customExplorer, selectedText, isFile, position);
         } else {
             // デフォルトのFinderを使用
             if (isFile) {
-                await executeCommand('open', ['-R', selectedText]);
+                return launchExplorer('open', ['-R', selectedText]);
             } else {
-                await executeCommand('open', [selectedText]);
+                return launchExplorer('open', [selectedText]);
             }
         }
     }
+
+    async openWithDefaultApp(selectedText: string): Promise<boolean> {
+        return launchDefaultApplication(getDefaultApplicationCommands('darwin', selectedText), true);
+    }
 }
 
 /**
@@ -547,12 +1051,13 @@ class LinuxHandler implements PlatformHandler {
     
     validatePath(selectedText: string, allowRelative: boolean): LocalizedMessage | null {
         // 絶対パス検証
-        if (this.ABSOLUTE_PATH_REGEX.test(selectedText) && !selectedText.includes('..')) {
+        if (this.ABSOLUTE_PATH_REGEX.test(selectedText) && !hasParentSegments(selectedText)) {
             return null;
         }
         
         // 相対パスの検証（許可されている場合）
-        if (allowRelative && !selectedText.includes('..')) {
+        // 親フォルダへの参照（..）はワークスペースの内側に解決されるかを解決時に確認する
+        if (allowRelative && !path.isAbsolute(selectedText)) {
             return null;
         }
         
@@ -560,26 +1065,49 @@ class LinuxHandler implements PlatformHandler {
     }
     
     normalizePath(selectedText: string): string {
-        // Linuxパスの正規化
-        return path.normalize(selectedText);
+        // Windows形式・WSLのUNCパスをLinux形式に変換してから正規化
+        const translated = translatePath(selectedText, getTranslationOptions('linux'));
+        return path.normalize(translated);
     }
 
-    async openPath(selectedText: string, isFile: boolean, customExplorer?: string): Promise<void> {
-        const config = loadConfig();
-        const language = config.language;
-        
+    async openPath(selectedText: string, isFile: boolean, customExplorer?: string, position?: TextPosition): Promise<boolean> {
         if (customExplorer && customExplorer.trim() !== '') {
             // カスタムエクスプローラーコマンドを使用
-            await executeCommand(customExplorer, [selectedText]);
+            return launchExplorerTemplate(customExplorer, selectedText, isFile, position);
         } else {
-            // デフォルトではxdg-openを使用
             if (isFile) {
-                await executeCommand('xdg-open', [path.dirname(selectedText)]);
+                return this.revealFile(selectedText);
             } else {
-                await executeCommand('xdg-open', [selectedText]);
+                // フォルダはxdg-openで開く
+                return launchExplorer('xdg-open', [selectedText]);
             }
         }
     }
+
+    /**
+     * ファイルをファイルマネージャーで選択した状態で表示します。
+     * D-Busのファイルマネージャー、選択オプションに対応したファイルマネージャーの順に試し、
+     * どちらも使用できない場合は親フォルダをxdg-openで開きます。
+     * @param filePath 表示するファイルのパス
+     * @returns 表示できた場合はtrue
+     */
+    private async revealFile(filePath: string): Promise<boolean> {
+        const result = await revealFileOnLinux(filePath, (command, args) => executeCommand(command, args));
+        switch (result.kind) {
+            case 'dbus':
+                return true;
+            case 'fileManager':
+                return launchExplorer(result.commandLine.command, result.commandLine.args);
+            default:
+                return launchExplorer('xdg-open', [path.dirname(filePath)]);
+        }
+    }
+
+    async openWithDefaultApp(selectedText: string): Promise<boolean> {
+        // xdg-openは環境によってアプリケーションの終了を待つため切り離して起動する
+        // 開けなかった場合はすぐに0以外で終了するため、タイムアウトまでの終了コードを確認して次のコマンドを試す
+        return launchDefaultApplication(getDefaultApplicationCommands('linux', selectedText), true, loadConfig().commandTimeout);
+    }
 }
 
 const PLATFORM_HANDLERS: { [key: string]: PlatformHandler } = {
@@ -615,45 +1143,215 @@ function handleError(message: LocalizedMessage | string, error?: any): void {
 
 /**
  * シンボリックリンクの処理を行います。
- * @param filePath シンボリックリンクのパス
+ * パスに含まれるリンクをすべて解決し、参照先が存在しない・循環している場合はエラーを表示します。
+ * 自動追跡の設定が無効な場合は、通過したリンクの一覧を表示して移動先を選択させます。
+ * @param filePath 処理するパス
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー
  * @param config 拡張機能の設定
- * @returns 処理すべきパス（リンク先またはリンク自体）
+ * @returns 処理すべきパス（リンク先またはリンク自体）。エラーや途中のリンクを表示した場合はundefined
  */
-async function handleSymlink(filePath: string, config: ExtensionConfig): Promise<string> {
+async function handleSymlink(filePath: string, platformHandler: PlatformHandler, config: ExtensionConfig): Promise<string | undefined> {
+    const language = config.language;
+    let chain: SymlinkChain;
     try {
-        const language = config.language;
-        const stats = await fs.lstat(filePath);
-        
-        if (stats.isSymbolicLink()) {
-            // シンボリックリンクが検出された場合、ユーザーに確認
-            const message = getLocalizedMessage(MESSAGES.SYMLINK_DETECTED, language);
-            const prompt = getLocalizedMessage(MESSAGES.FOLLOW_SYMLINK_PROMPT, language);
-            const followOption = getLocalizedMessage(MESSAGES.FOLLOW, language);
-            const stayOption = getLocalizedMessage(MESSAGES.STAY, language);
-            
-            // 自動追跡の設定がある場合は確認せずに追跡
-            if (config.followSymlinks) {
-                return await fs.readlink(filePath);
-            }
-            
-            const result = await vscode.window.showInformationMessage(
-                `${message} ${prompt}`,
-                followOption,
-                stayOption
-            );
-            
-            if (result === followOption) {
-                // リンク先を取得
-                return await fs.readlink(filePath);
-            }
-        }
-        
-        // シンボリックリンクでない、またはユーザーが「リンク自体を開く」を選択した場合
-        return filePath;
+        chain = await resolveSymlinkChain(filePath);
     } catch (error) {
         console.error('シンボリックリンク処理エラー:', error);
         return filePath; // エラー時は元のパスを返す
     }
+    if (chain.hops.length === 0) {
+        return filePath;
+    }
+
+    if (chain.status !== 'ok') {
+        const lastHop = chain.hops[chain.hops.length - 1];
+        const message = chain.status === 'dangling' ? MESSAGES.SYMLINK_DANGLING : MESSAGES.SYMLINK_LOOP;
+        const localizedMessage = `${getLocalizedMessage(message, language)} ${lastHop.linkPath} → ${lastHop.target}`;
+        console.error(localizedMessage);
+        // リンク自体は存在するため、エクスプローラーで表示できるようにする
+        const revealOption = getLocalizedMessage(MESSAGES.REVEAL_SYMLINK, language);
+        const result = await vscode.window.showErrorMessage(localizedMessage, revealOption);
+        if (result === revealOption) {
+            await platformHandler.openPath(lastHop.linkPath, true, resolveExplorerCommand(process.platform, config, true));
+        }
+        return undefined;
+    }
+
+    // 自動追跡の設定がある場合は確認せずに追跡
+    if (config.followSymlinks) {
+        return chain.finalPath;
+    }
+
+    // シンボリックリンクが検出された場合、通過したリンクを示してユーザーに確認
+    type SymlinkItem = vscode.QuickPickItem & { target?: string; reveal?: string };
+    const items: SymlinkItem[] = [
+        {
+            label: `$(arrow-right) ${getLocalizedMessage(MESSAGES.FOLLOW, language)}`,
+            description: chain.finalPath,
+            target: chain.finalPath
+        },
+        {
+            label: `$(link) ${getLocalizedMessage(MESSAGES.STAY, language)}`,
+            description: filePath,
+            target: filePath
+        },
+        { label: getLocalizedMessage(MESSAGES.SYMLINK_HOPS, language), kind: vscode.QuickPickItemKind.Separator },
+        ...chain.hops.map(hop => ({
+            label: `$(file-symlink-file) ${hop.linkPath}`,
+            description: `→ ${hop.target}`,
+            detail: getLocalizedMessage(MESSAGES.REVEAL_SYMLINK, language),
+            reveal: hop.linkPath
+        }))
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `${getLocalizedMessage(MESSAGES.SYMLINK_DETECTED, language)} ${getLocalizedMessage(MESSAGES.FOLLOW_SYMLINK_PROMPT, language)}`
+    });
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.reveal) {
+        await platformHandler.openPath(picked.reveal, true, resolveExplorerCommand(process.platform, config, true));
+        return undefined;
+    }
+    return picked.target;
+}
+
+/**
+ * エディタのカーソルを指定された位置に移動し、その範囲を表示します。
+ * 行・列がドキュメントの範囲外の場合は範囲内に丸めます。
+ * @param editor 対象のエディタ。
+ * @param position 移動先の位置（1始まり）。
+ */
+function revealPosition(editor: vscode.TextEditor, position: TextPosition): void {
+    const document = editor.document;
+    const line = Math.min(Math.max(position.line - 1, 0), document.lineCount - 1);
+    const lineLength = document.lineAt(line).text.length;
+    const character = Math.min(Math.max((position.column ?? 1) - 1, 0), lineLength);
+    const target = new vscode.Position(line, character);
+    editor.selection = new vscode.Selection(target, target);
+    editor.revealRange(new vscode.Range(target, target), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * 存在しないパスについて、存在する最も深い親フォルダと、最初に存在しなくなるパス要素を求めます。
+ * @param targetPath 存在しないパス。
+ * @returns 存在する親フォルダと、その直下から先の存在しないパス要素（見つからない場合はundefined）
+ */
+async function findNearestExistingAncestor(targetPath: string): Promise<{ ancestor: string; missingSegments: string[] } | undefined> {
+    const missingSegments: string[] = [];
+    let current = targetPath;
+    while (true) {
+        const parent = path.dirname(current);
+        if (parent === current) {
+            return undefined;
+        }
+        missingSegments.unshift(path.basename(current));
+        current = parent;
+        try {
+            if ((await fs.stat(current)).isDirectory()) {
+                return { ancestor: current, missingSegments };
+            }
+        } catch {
+            // 存在しない場合はさらに親をたどる
+        }
+    }
+}
+
+/**
+ * 存在しないパスの代わりに開くことのできる候補を集めます。
+ * 存在する親フォルダ内の似た名前のエントリ（残りのパスも存在すればそのパス）と、
+ * ワークスペース内の同じファイル名のファイルを返します。
+ * @param targetPath 存在しないパス。
+ * @param ancestor 存在する最も深い親フォルダ。
+ * @param missingSegments 親フォルダから先の存在しないパス要素。
+ * @returns 似た名前の候補とワークスペース内の候補
+ */
+async function collectSimilarPaths(
+    targetPath: string,
+    ancestor: string,
+    missingSegments: string[]
+): Promise<{ siblings: string[]; workspaceMatches: string[] }> {
+    const siblings: string[] = [];
+    try {
+        const entries = await fs.readdir(ancestor);
+        for (const name of findSimilarNames(missingSegments[0], entries)) {
+            // 名前の変わったフォルダの先に残りのパスが存在すればそれを優先する
+            const fullCandidate = path.join(ancestor, name, ...missingSegments.slice(1));
+            siblings.push(await fileExists(fullCandidate) ? fullCandidate : path.join(ancestor, name));
+        }
+    } catch (error) {
+        console.error('類似パスの検索エラー:', error);
+    }
+
+    const workspaceMatches: string[] = [];
+    const baseName = path.basename(targetPath);
+    // グロブの特殊文字を含む名前は検索しない
+    if (vscode.workspace.workspaceFolders && baseName && !/[*?{}\[\]]/.test(baseName)) {
+        const uris = await vscode.workspace.findFiles(`**/${baseName}`, undefined, 20);
+        for (const uri of uris) {
+            if (!siblings.includes(uri.fsPath)) {
+                workspaceMatches.push(uri.fsPath);
+            }
+        }
+    }
+
+    return { siblings, workspaceMatches };
+}
+
+/**
+ * パスが存在しない場合のエラーを通知し、存在する親フォルダを開くか、
+ * 似たパスをクイックピックから選んで開くことを提案します。
+ * @param targetPath 存在しないパス。
+ * @param platformHandler 使用するプラットフォームハンドラ。
+ * @param config 拡張機能の設定。
+ */
+async function handleMissingPath(
+    targetPath: string,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<void> {
+    const language = config.language;
+    const nearest = await findNearestExistingAncestor(targetPath);
+    if (!nearest) {
+        handleError(MESSAGES.PATH_NOT_EXISTS);
+        return;
+    }
+
+    const { siblings, workspaceMatches } = await collectSimilarPaths(targetPath, nearest.ancestor, nearest.missingSegments);
+    const openFolderOption = getLocalizedMessage(MESSAGES.OPEN_NEAREST_FOLDER, language);
+    const similarOption = getLocalizedMessage(MESSAGES.SHOW_SIMILAR, language);
+    const options = siblings.length > 0 || workspaceMatches.length > 0
+        ? [openFolderOption, similarOption]
+        : [openFolderOption];
+
+    const message = getLocalizedMessage(MESSAGES.PATH_NOT_EXISTS, language);
+    console.error(message, targetPath);
+    const selected = await vscode.window.showErrorMessage(`${message} ${targetPath}`, ...options);
+
+    if (selected === openFolderOption) {
+        await platformHandler.openPath(nearest.ancestor, false, resolveExplorerCommand(process.platform, config, false));
+    } else if (selected === similarOption) {
+        const items: (vscode.QuickPickItem & { targetPath?: string })[] = [];
+        if (siblings.length > 0) {
+            items.push({ label: getLocalizedMessage(MESSAGES.SIMILAR_SIBLINGS, language), kind: vscode.QuickPickItemKind.Separator });
+            items.push(...siblings.map(p => ({ label: path.basename(p), description: p, targetPath: p })));
+        }
+        if (workspaceMatches.length > 0) {
+            items.push({ label: getLocalizedMessage(MESSAGES.WORKSPACE_MATCHES, language), kind: vscode.QuickPickItemKind.Separator });
+            items.push(...workspaceMatches.map(p => ({
+                label: vscode.workspace.asRelativePath(p),
+                description: p,
+                targetPath: p
+            })));
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: getLocalizedMessage(MESSAGES.SELECT_SIMILAR_PATH, language)
+        });
+        if (picked?.targetPath) {
+            await processPath(picked.targetPath, platformHandler, config);
+        }
+    }
 }
 
 /**
@@ -662,121 +1360,2362 @@ async function handleSymlink(filePath: string, config: ExtensionConfig): Promise
  * @param selectedText 対象のパス文字列。
  * @param platformHandler 使用するプラットフォームハンドラ。
  * @param config 拡張機能の設定。
+ * @param position テキストファイルを開いた際に移動する位置（任意）。
+ */
+async function processPath(
+    selectedText: string, 
+    platformHandler: PlatformHandler, 
+    config: ExtensionConfig,
+    position?: TextPosition
+): Promise<void> {
+    const language = config.language;
+    
+    // パスの正規化（履歴にはシンボリックリンクの解決前の正規化したパスを記録する）
+    const inputPath = platformHandler.normalizePath(selectedText);
+    let normalizedPath = inputPath;
+    
+    // シンボリックリンクの処理
+    const symlinkTarget = await handleSymlink(normalizedPath, platformHandler, config);
+    if (symlinkTarget === undefined) {
+        return;
+    }
+    normalizedPath = symlinkTarget;
+    
+    let stats;
+    try {
+        stats = await fs.stat(normalizedPath);
+    } catch (error: any) {
+        // アーカイブ内のパス（build.zip/bin/app.dll）はENOENTまたはENOTDIRになる
+        if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+            if (!await tryBrowseArchive(normalizedPath, platformHandler, config)) {
+                await handleMissingPath(normalizedPath, platformHandler, config);
+            }
+        } else {
+            handleError(
+                `${getLocalizedMessage(MESSAGES.FILE_STAT_ERROR, language)}${error.message || ''}`, 
+                error
+            );
+        }
+        return;
+    }
+
+    const isFile = stats.isFile();
+
+    if (isFile) {
+        // ファイルの種類は規則の評価とテキストの文字コードの指定で共用するため、一度だけ判定する
+        let fileType: Promise<FileTypeInfo> | undefined;
+        const getFileType = () => fileType ??= detectFileTypeOfPath(normalizedPath);
+
+        // ユーザーの規則、組み込みの規則の順に評価して動作を決める
+        const rule = await findMatchingRule(
+            [...config.rules, ...DEFAULT_RULES],
+            { path: normalizedPath, size: stats.size },
+            getFileType,
+            process.platform === 'win32'
+        );
+        // キャンセル・失敗した場合は履歴に記録しない
+        const action = await applyFileRule(
+            rule ?? { action: 'reveal' }, normalizedPath, stats.size, getFileType, platformHandler, config, position
+        );
+        if (action) {
+            await notifyPathOpened(config, inputPath, normalizedPath, action);
+        }
+        return;
+    }
+    
+    // ファイルでない場合は、OSのエクスプローラー/ファインダーで開く
+    const opened = await platformHandler.openPath(
+        normalizedPath, 
+        isFile, 
+        resolveExplorerCommand(process.platform, config, isFile),
+        position
+    );
+    if (opened) {
+        await notifyPathOpened(config, inputPath, normalizedPath, 'reveal');
+    }
+}
+
+/**
+ * 規則で決まった動作でファイルを開きます。
+ * @param rule 一致した規則
+ * @param filePath ファイルのパス
+ * @param fileSize ファイルサイズ（バイト）
+ * @param getFileType ファイルの種類を判定する関数
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー
+ * @param config 拡張機能の設定
+ * @param position 行・列の位置（任意）
+ * @returns 実際に行った動作（キャンセル・失敗した場合はundefined）
+ */
+async function applyFileRule(
+    rule: FileRule,
+    filePath: string,
+    fileSize: number,
+    getFileType: () => Promise<FileTypeInfo>,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig,
+    position?: TextPosition
+): Promise<string | undefined> {
+    const uri = vscode.Uri.file(filePath);
+    switch (rule.action) {
+        case 'openInVSCode':
+            return openFileInVSCode(filePath, fileSize, getFileType, platformHandler, config, position);
+        case 'openWith':
+            if (!rule.viewType) {
+                return openFileInVSCode(filePath, fileSize, getFileType, platformHandler, config, position);
+            }
+            try {
+                await vscode.commands.executeCommand('vscode.openWith', uri, rule.viewType);
+                return 'openWith';
+            } catch (error: any) {
+                handleError(`${getLocalizedMessage(MESSAGES.OPEN_WITH_ERROR, config.language)} ${rule.viewType}`, error);
+                return undefined;
+            }
+        case 'openDefault':
+            return await platformHandler.openWithDefaultApp(filePath) ? 'openDefault' : undefined;
+        case 'profile': {
+            const profileConfig = rule.profile ? { ...config, defaultProfile: rule.profile } : config;
+            const command = resolveExplorerCommand(process.platform, profileConfig, true);
+            return await platformHandler.openPath(filePath, true, command, position) ? 'profile' : undefined;
+        }
+        default: {
+            const command = resolveExplorerCommand(process.platform, config, true);
+            return await platformHandler.openPath(filePath, true, command, position) ? 'reveal' : undefined;
+        }
+    }
+}
+
+/**
+ * 文字コードを指定してテキストドキュメントを開きます。
+ * @param uri ファイルのURI
+ * @param encoding VS Codeの文字コード（未指定の場合は files.encoding の設定に従う）
+ * @returns テキストドキュメント
+ */
+function openTextDocumentWithEncoding(uri: vscode.Uri, encoding?: string): Thenable<vscode.TextDocument> {
+    return encoding ? vscode.workspace.openTextDocument(uri, { encoding }) : vscode.workspace.openTextDocument(uri);
+}
+
+/**
+ * ファイルをVS Codeのテキストエディタで開きます。
+ * 大きなファイルの場合は、設定に応じて確認ダイアログを表示します。
+ * 判定した文字コードで開き、その文字コードをステータスバーに表示します。
+ * @param filePath ファイルのパス
+ * @param fileSize ファイルサイズ（バイト）
+ * @param getFileType ファイルの種類を判定する関数
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー
+ * @param config 拡張機能の設定
+ * @param position 行・列の位置（任意）
+ * @returns 実際に行った動作（確認ダイアログで選択した動作。キャンセル・失敗した場合はundefined）
+ */
+async function openFileInVSCode(
+    filePath: string,
+    fileSize: number,
+    getFileType: () => Promise<FileTypeInfo>,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig,
+    position?: TextPosition
+): Promise<string | undefined> {
+    const language = config.language;
+
+    // 大きなファイルの場合は確認ダイアログを表示
+    if (fileSize > config.largeFileSizeLimit && config.confirmLargeFileOpen) {
+        const fileSizeMB = (fileSize / (1024 * 1024)).toFixed(2);
+        const warningMessage = getLocalizedMessage(MESSAGES.LARGE_FILE_WARNING, language);
+        const openNormalOption = getLocalizedMessage(MESSAGES.OPEN_IN_VSCODE, language);
+        const openExplorerOption = getLocalizedMessage(MESSAGES.OPEN_IN_EXPLORER, language);
+        const previewOption = getLocalizedMessage(MESSAGES.PREVIEW_LARGE_FILE, language);
+        const openDefaultOption = getLocalizedMessage(MESSAGES.OPEN_WITH_DEFAULT_APP, language);
+        const cancelOption = getLocalizedMessage(MESSAGES.CANCEL, language);
+        
+        const result = await vscode.window.showWarningMessage(
+            `${warningMessage} (${fileSizeMB} MB)`,
+            openNormalOption,
+            openExplorerOption,
+            previewOption,
+            openDefaultOption,
+            cancelOption
+        );
+        
+        if (result === previewOption) {
+            const { encoding } = await getFileType();
+            const previewed = await pickLargeFilePreview(filePath, fileSize, config, encoding ? toDecoderLabel(encoding) : undefined);
+            return previewed ? 'preview' : undefined;
+        } else if (result === openDefaultOption) {
+            return await platformHandler.openWithDefaultApp(filePath) ? 'openDefault' : undefined;
+        } else if (result === openExplorerOption) {
+            const opened = await platformHandler.openPath(
+                filePath, 
+                true, 
+                resolveExplorerCommand(process.platform, config, true),
+                position
+            );
+            return opened ? 'reveal' : undefined;
+        } else if (result !== openNormalOption) {
+            return undefined; // キャンセル
+        }
+    }
+    
+    // VS Code内でテキストファイルを開く
+    const uri = vscode.Uri.file(filePath);
+    const { encoding } = await getFileType();
+    const vscodeEncoding = encoding ? toVSCodeEncoding(encoding) : undefined;
+    try {
+        const document = await openTextDocumentWithEncoding(uri, vscodeEncoding);
+        if (encoding) {
+            const message = vscodeEncoding ? MESSAGES.ENCODING_DETECTED : MESSAGES.ENCODING_UNSUPPORTED;
+            vscode.window.setStatusBarMessage(
+                `$(file-text) ${getLocalizedMessage(message, language)}: ${getEncodingLabel(encoding)}`,
+                5000
+            );
+        }
+        const editor = await vscode.window.showTextDocument(document, { preview: false, viewColumn: vscode.ViewColumn.Active });
+        if (position) {
+            revealPosition(editor, position);
+        }
+        return 'openInVSCode';
+    } catch (error: any) {
+        handleError(MESSAGES.TEXT_FILE_OPEN_ERROR, error);
+        return undefined;
+    }
+}
+
+/**
+ * 使用するエクスプローラープロファイルを解決し、開く対象に応じたコマンドテンプレートを取得します。
+ * 既定のプロファイル（defaultProfile）がプラットフォームで使用できる場合はそのテンプレート、
+ * ない場合はプラットフォーム別のカスタムエクスプローラー設定を使用します。
+ * @param platform 現在のプラットフォーム。
+ * @param config 拡張機能の設定。
+ * @param isFile 開く対象がファイルかどうか。
+ * @returns コマンドテンプレート（OS標準のエクスプローラーを使用する場合は空文字列）。
+ */
+function resolveExplorerCommand(platform: string, config: ExtensionConfig, isFile: boolean): string {
+    if (config.defaultProfile === SYSTEM_DEFAULT_PROFILE) {
+        return '';
+    }
+    if (config.defaultProfile) {
+        const profile = findProfile(filterProfilesForPlatform(config.profiles, platform), config.defaultProfile);
+        if (profile) {
+            return selectProfileCommand(profile, isFile);
+        }
+        console.error('プロファイルが見つかりません:', config.defaultProfile);
+    }
+
+    // プロファイルを使用しない場合はプラットフォーム別のカスタムエクスプローラー設定
+    switch (platform) {
+        case 'win32':
+            return config.customExplorerWindows;
+        case 'darwin':
+            return config.customExplorerMacOS;
+        case 'linux':
+            return config.customExplorerLinux;
+        default:
+            return '';
+    }
+}
+
+/**
+ * 現在のプラットフォームに対応するハンドラを取得します。
+ * 未対応のプラットフォームの場合はエラーを通知します。
+ * @param config 拡張機能の設定。
+ * @returns プラットフォームハンドラ（未対応の場合はundefined）
+ */
+function getPlatformHandler(config: ExtensionConfig): PlatformHandler | undefined {
+    const platformHandler = PLATFORM_HANDLERS[process.platform];
+    if (!platformHandler) {
+        handleError(`${getLocalizedMessage(MESSAGES.UNSUPPORTED_PLATFORM, config.language)}${process.platform}`);
+    }
+    return platformHandler;
+}
+
+/**
+ * パスを表すテキストを解決した結果
+ */
+type PathResolveResult =
+    | { kind: 'resolved'; path: string; position?: TextPosition; mapping?: PathMapping; originalPath?: string }  // 解決したパスと位置指定、使用したマッピング
+    | { kind: 'error'; message: LocalizedMessage; detail?: string }  // 検証エラーと補足情報
+    | { kind: 'cancelled' };                                         // ユーザーが候補の選択を取り消した
+
+/**
+ * 解決エラーを表示用の文字列に変換します。
+ * @param result 解決エラー。
+ * @param language 使用する言語。
+ * @returns 表示用のエラーメッセージ
+ */
+function formatResolveError(result: { message: LocalizedMessage; detail?: string }, language: string): string {
+    const message = getLocalizedMessage(result.message, language);
+    return result.detail ? `${message} ${result.detail}` : message;
+}
+
+/**
+ * パス中の変数の展開に使用する情報を取得します。
+ * ${workspaceFolder} はアクティブなドキュメントを含むワークスペースフォルダ、なければ最初のフォルダです。
+ * @returns 変数の展開に使用する情報
+ */
+function getExpansionContext(): ExpansionContext {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    return {
+        env: process.env,
+        homeDir: os.homedir(),
+        platform: process.platform,
+        workspaceFolder: (activeFolder ?? workspaceFolders[0])?.uri.fsPath,
+        workspaceFolders: workspaceFolders.map(folder => ({ name: folder.name, path: folder.uri.fsPath }))
+    };
+}
+
+/**
+ * マウント済みのネットワーク共有（SMB/CIFS）を取得します。
+ * Linuxでは /proc/mounts とgvfsのマウント、macOSでは mount コマンドの出力を使用します。
+ * @returns マウント済みのネットワーク共有
+ */
+async function readNetworkMounts(): Promise<NetworkMount[]> {
+    const mounts: NetworkMount[] = [];
+    try {
+        if (process.platform === 'linux') {
+            mounts.push(...parseProcMounts(await fs.readFile('/proc/mounts', 'utf8')));
+
+            // GNOMEのファイルマネージャーでマウントされた共有
+            const gvfsRoot = `/run/user/${process.getuid?.() ?? 0}/gvfs`;
+            if (await fileExists(gvfsRoot)) {
+                for (const name of await fs.readdir(gvfsRoot)) {
+                    const source = parseGvfsShareName(name);
+                    if (source) {
+                        mounts.push({ source, target: path.join(gvfsRoot, name) });
+                    }
+                }
+            }
+        } else if (process.platform === 'darwin') {
+            const { output } = await executeCommand('mount', []);
+            mounts.push(...parseMacMountOutput(output ?? ''));
+        }
+    } catch (error) {
+        console.error('マウント情報の取得エラー:', error);
+    }
+    return mounts;
+}
+
+/**
+ * file:// や smb:// 形式のURI、UNCパスを開くことのできるパスに変換します。
+ * @param text サニタイズ済みの入力テキスト。
+ * @returns 変換結果（URIでない場合は入力そのまま）
+ */
+async function convertInputLocation(text: string): Promise<PathResolveResult> {
+    const mounts = isNetworkInput(text) && process.platform !== 'win32' ? await readNetworkMounts() : [];
+    const converted = convertUriInput(text, process.platform, mounts);
+    switch (converted.kind) {
+        case 'unsupportedScheme':
+            return { kind: 'error', message: MESSAGES.UNSUPPORTED_URI_SCHEME, detail: converted.scheme };
+        case 'notMounted':
+            return { kind: 'error', message: MESSAGES.NETWORK_SHARE_NOT_MOUNTED, detail: converted.share };
+        default:
+            return { kind: 'resolved', path: converted.path };
+    }
+}
+
+/**
+ * 設定されたパスマッピングを適用します。
+ * 元のパスが存在する場合はそのまま使用し、存在しない場合のみ書き換え後の候補を順に確認して、
+ * 最初に存在した候補を使用します。書き換え先の変数（${workspaceFolder}など）は展開してから適用します。
+ * @param text 展開済みのパス。
+ * @param platformHandler 使用するプラットフォームハンドラ。
+ * @param config 拡張機能の設定。
+ * @returns 使用するパスと、適用したマッピング（書き換えなかった場合はundefined）
+ */
+async function applyConfiguredMappings(
+    text: string,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<{ path: string; mapping?: PathMapping }> {
+    if (config.pathMappings.length === 0) {
+        return { path: text };
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    const context = getExpansionContext();
+
+    // 書き換え先の変数を展開（スコープ付きの規則では対象のワークスペースフォルダを使用）
+    const mappings: PathMapping[] = [];
+    for (const mapping of config.pathMappings) {
+        if (!mapping || typeof mapping.to !== 'string') {
+            continue;
+        }
+        const scopedFolder = mapping.workspaceFolder
+            ? context.workspaceFolders?.find(folder => folder.name === mapping.workspaceFolder)?.path
+            : undefined;
+        const expanded = expandPathVariables(mapping.to, { ...context, workspaceFolder: scopedFolder ?? context.workspaceFolder });
+        if ('undefinedVariable' in expanded) {
+            console.error('パスマッピングの変数が定義されていません:', getMappingLabel(mapping), expanded.undefinedVariable);
+            continue;
+        }
+        mappings.push({ ...mapping, to: expanded.path });
+    }
+
+    const candidates = applyPathMappings(text, mappings, activeFolder?.name, process.platform === 'win32');
+    if (candidates.length === 0) {
+        return { path: text };
+    }
+
+    // 元のパスが存在する場合は書き換えない
+    const original = platformHandler.normalizePath(text);
+    if (platformHandler.validatePath(original, false) === null && await fileExists(original)) {
+        return { path: text };
+    }
+
+    for (const candidate of candidates) {
+        const normalized = platformHandler.normalizePath(candidate.path);
+        if (platformHandler.validatePath(normalized, config.allowRelativePaths) === null && await fileExists(normalized)) {
+            return { path: candidate.path, mapping: candidate.mapping };
+        }
+    }
+
+    return { path: text };
+}
+
+/**
+ * パスマッピングを使用した場合に、どの規則を使用したかを通知します。
+ * @param resolved 解決結果。
+ * @param language 使用する言語。
+ */
+function notifyMappingUsed(resolved: { path: string; mapping?: PathMapping; originalPath?: string }, language: string): void {
+    if (!resolved.mapping) {
+        return;
+    }
+    const message = `${getLocalizedMessage(MESSAGES.MAPPING_USED, language)} ${getMappingLabel(resolved.mapping)}` +
+        ` (${resolved.originalPath} → ${resolved.path})`;
+    getOutputChannel().appendLine(message);
+    vscode.window.showInformationMessage(message);
+}
+
+/**
+ * 相対パスの解決に使用する基準フォルダを優先順に取得します。
+ * アクティブなドキュメントのフォルダ、各ワークスペースフォルダ、設定された検索フォルダの順です。
+ * @param config 拡張機能の設定。
+ * @returns 基準フォルダの配列
+ */
+function getRelativeBaseDirectories(config: ExtensionConfig): BaseDirectory[] {
+    const language = config.language;
+    const bases: BaseDirectory[] = [];
+
+    const document = vscode.window.activeTextEditor?.document;
+    if (document && document.uri.scheme === 'file') {
+        bases.push({
+            directory: path.dirname(document.uri.fsPath),
+            kind: 'document',
+            label: getLocalizedMessage(MESSAGES.BASE_DOCUMENT, language)
+        });
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    for (const folder of workspaceFolders) {
+        bases.push({
+            directory: folder.uri.fsPath,
+            kind: 'workspace',
+            label: `${getLocalizedMessage(MESSAGES.BASE_WORKSPACE, language)}: ${folder.name}`
+        });
+    }
+
+    for (const directory of config.relativePathSearchDirectories) {
+        if (!directory || !directory.trim()) {
+            continue;
+        }
+        // 相対指定の検索フォルダは各ワークスペースフォルダを基準にする
+        const directories = path.isAbsolute(directory)
+            ? [directory]
+            : workspaceFolders.map(folder => path.resolve(folder.uri.fsPath, directory));
+        for (const resolved of directories) {
+            bases.push({
+                directory: resolved,
+                kind: 'search',
+                label: `${getLocalizedMessage(MESSAGES.BASE_SEARCH, language)}: ${directory}`
+            });
+        }
+    }
+
+    return bases;
+}
+
+/**
+ * 相対パスに一致する候補が複数ある場合の扱い
+ * - pick: クイックピックで選択させる
+ * - first: 優先順位の最も高い候補を使用する
+ * - reject: エラーにする（外部のリンクなど、確認前に入力を求められない場合）
+ */
+type CandidateSelection = 'pick' | 'first' | 'reject';
+
+/**
+ * 相対パスを基準フォルダに対して解決します。
+ * 存在する候補が複数ある場合は、selection の指定に従って候補を選びます。
+ * 存在する候補がない場合は最初の候補を返し、存在確認は呼び出し側に任せます。
+ * @param relativePath 相対パス。
+ * @param config 拡張機能の設定。
+ * @param selection 候補が複数ある場合の扱い。
+ * @returns 解決結果
+ */
+async function resolveRelativePath(
+    relativePath: string,
+    config: ExtensionConfig,
+    selection: CandidateSelection
+): Promise<PathResolveResult> {
+    const bases = getRelativeBaseDirectories(config);
+    if (bases.length === 0) {
+        return { kind: 'error', message: MESSAGES.RELATIVE_PATH_NO_BASE };
+    }
+
+    const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    const candidates = buildRelativeCandidates(relativePath, bases, workspaceFolders, process.platform === 'win32');
+    if (candidates.length === 0) {
+        return { kind: 'error', message: MESSAGES.PARENT_PATH_OUTSIDE_WORKSPACE };
+    }
+
+    const existing: RelativeCandidate[] = [];
+    for (const candidate of candidates) {
+        if (await fileExists(candidate.path)) {
+            existing.push(candidate);
+        }
+    }
+
+    if (existing.length === 0) {
+        return { kind: 'resolved', path: candidates[0].path };
+    }
+    if (existing.length === 1 || selection === 'first') {
+        return { kind: 'resolved', path: existing[0].path };
+    }
+    if (selection === 'reject') {
+        return { kind: 'error', message: MESSAGES.AMBIGUOUS_RELATIVE_PATH, detail: relativePath };
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        existing.map(candidate => ({
+            label: candidate.path,
+            description: candidate.base.label,
+            candidate
+        })),
+        { placeHolder: getLocalizedMessage(MESSAGES.SELECT_RELATIVE_CANDIDATE, config.language) }
+    );
+    return picked ? { kind: 'resolved', path: picked.candidate.path } : { kind: 'cancelled' };
+}
+
+/**
+ * パスの変数を展開し、設定されたマッピングを適用して、プラットフォームの形式に正規化します。
+ * @param text 位置指定を取り除いたパスを表すテキスト。
+ * @param platformHandler 使用するプラットフォームハンドラ。
+ * @param config 拡張機能の設定。
+ * @returns 正規化したパスと使用したマッピング（未定義の変数がある場合はエラー）
+ */
+async function expandAndNormalizePath(
+    text: string,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<{ path: string; mappingInfo: { mapping?: PathMapping; originalPath?: string } } | Extract<PathResolveResult, { kind: 'error' }>> {
+    // 環境変数・チルダ・VS Code変数を展開
+    const expansion = expandPathVariables(text, getExpansionContext());
+    if ('undefinedVariable' in expansion) {
+        return { kind: 'error', message: MESSAGES.UNDEFINED_VARIABLE, detail: expansion.undefinedVariable };
+    }
+    // サーバー・コンテナのパスをローカルのパスに書き換え（元のパスが存在しない場合のみ）
+    const mapped = await applyConfiguredMappings(expansion.path, platformHandler, config);
+    const mappingInfo = mapped.mapping ? { mapping: mapped.mapping, originalPath: expansion.path } : {};
+
+    // 他のプラットフォーム形式のパスを変換して正規化
+    return { path: platformHandler.normalizePath(mapped.path), mappingInfo };
+}
+
+/**
+ * パスを表すテキストをサニタイズ・検証し、開く対象の絶対パスに解決します。
+ * 行・列の位置指定は取り除いて結果に含めます。
+ * @param rawText パスを表すテキスト。
+ * @param platformHandler 使用するプラットフォームハンドラ。
+ * @param config 拡張機能の設定。
+ * @param selection 相対パスの候補が複数ある場合の扱い。
+ * @returns 解決結果
+ */
+async function resolvePathText(
+    rawText: string,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig,
+    selection: CandidateSelection
+): Promise<PathResolveResult> {
+    if (!rawText || !rawText.trim()) {
+        return { kind: 'error', message: MESSAGES.NO_VALID_PATH };
+    }
+
+    // パスをサニタイズし、URI・ネットワーク上の場所をパスに変換
+    const location = await convertInputLocation(sanitizePath(rawText));
+    if (location.kind !== 'resolved') {
+        return location;
+    }
+
+    // 行・列の位置指定を取り除く
+    // 位置指定に見える部分を含めたパスが存在する場合は、名前の一部とみなしてそのまま使用する
+    let { path: sanitizedText, position } = parsePositionSuffix(location.path);
+    if (position) {
+        const literal = await expandAndNormalizePath(location.path, platformHandler, config);
+        if ('path' in literal && path.isAbsolute(literal.path) && await fileExists(literal.path)) {
+            sanitizedText = location.path;
+            position = undefined;
+        }
+    }
+
+    const expanded = await expandAndNormalizePath(sanitizedText, platformHandler, config);
+    if (!('path' in expanded)) {
+        return expanded;
+    }
+    const { path: selectedText, mappingInfo } = expanded;
+
+    // パスの検証を実施
+    const validationError = platformHandler.validatePath(selectedText, config.allowRelativePaths);
+    if (validationError) {
+        return { kind: 'error', message: validationError };
+    }
+
+    // 相対パスは基準フォルダに対して解決する
+    if (!path.isAbsolute(selectedText)) {
+        const resolved = await resolveRelativePath(selectedText, config, selection);
+        return resolved.kind === 'resolved' ? { ...resolved, position, ...mappingInfo } : resolved;
+    }
+
+    return { kind: 'resolved', path: selectedText, position, ...mappingInfo };
+}
+
+/**
+ * 設定を読み込み、プロファイルが指定されている場合は既定のプロファイルとして上書きします。
+ * @param profileName 使用するプロファイル名（任意）。
+ * @returns 拡張機能の設定
+ */
+function loadConfigWithProfile(profileName?: string): ExtensionConfig {
+    const config = loadConfig();
+    return profileName ? { ...config, defaultProfile: profileName } : config;
+}
+
+/**
+ * パスを表すテキストを検証し、適切な方法で開きます。
+ * エディタの選択範囲・ドキュメントリンクなど、すべての入力経路から共通で使用します。
+ * @param rawText パスを表すテキスト。
+ * @param profileName 使用するエクスプローラープロファイル名（任意）。
+ */
+async function openPathFromText(rawText: string, profileName?: string): Promise<void> {
+    // 設定を読み込む
+    const config = loadConfigWithProfile(profileName);
+
+    // 適切なプラットフォームハンドラを選択
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+
+    // パスの検証・解決を実施
+    const resolved = await resolvePathText(rawText, platformHandler, config, 'pick');
+    if (resolved.kind === 'error') {
+        handleError(formatResolveError(resolved, config.language));
+        return;
+    }
+    if (resolved.kind === 'cancelled') {
+        return;
+    }
+    notifyMappingUsed(resolved, config.language);
+
+    // パスの存在確認・ファイル種別の判定・オープン処理
+    await processPath(resolved.path, platformHandler, config, resolved.position);
+}
+
+/**
+ * パスを表すテキストを解決し、存在するパスとその情報を取得します。
+ * 解決できない場合や存在しない場合は、エラーの通知・候補の提示を行います。
+ * @param rawText パスを表すテキスト。
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー。
+ * @param config 拡張機能の設定。
+ * @returns 正規化されたパスとファイル情報（解決できない場合はundefined）
+ */
+async function resolveExistingPath(
+    rawText: string,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<{ path: string; stats: Stats } | undefined> {
+    // 行・列の位置指定はエクスプローラーやアプリケーションでの表示には不要なため使用しない
+    const resolved = await resolvePathText(rawText, platformHandler, config, 'pick');
+    if (resolved.kind === 'error') {
+        handleError(formatResolveError(resolved, config.language));
+        return undefined;
+    }
+    if (resolved.kind === 'cancelled') {
+        return undefined;
+    }
+    notifyMappingUsed(resolved, config.language);
+    return findExistingPath(resolved.path, platformHandler, config);
+}
+
+/**
+ * 解決したパスが存在するか確認し、その情報を取得します。
+ * 存在しない場合は、エラーの通知・候補の提示を行います。
+ * @param resolvedPath 解決したパス。
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー。
+ * @param config 拡張機能の設定。
+ * @returns 正規化されたパスとファイル情報（存在しない場合はundefined）
+ */
+async function findExistingPath(
+    resolvedPath: string,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<{ path: string; stats: Stats } | undefined> {
+    const normalizedPath = platformHandler.normalizePath(resolvedPath);
+    try {
+        return { path: normalizedPath, stats: await fs.stat(normalizedPath) };
+    } catch (error: any) {
+        // 途中の要素がファイルの場合（/etc/hosts/foo など）はENOTDIRになる
+        if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+            await handleMissingPath(normalizedPath, platformHandler, config);
+        } else {
+            handleError(MESSAGES.FILE_STAT_ERROR, error);
+        }
+        return undefined;
+    }
+}
+
+/**
+ * ファイルの種別に関わらず、パスをOSのエクスプローラー/ファインダーで表示します。
+ * @param rawText パスを表すテキスト。
+ * @param profileName 使用するエクスプローラープロファイル名（任意）。
+ */
+async function revealPathFromText(rawText: string, profileName?: string): Promise<void> {
+    const config = loadConfigWithProfile(profileName);
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+
+    const existing = await resolveExistingPath(rawText, platformHandler, config);
+    if (existing) {
+        await revealExistingPath(existing, platformHandler, config);
+    }
+}
+
+/**
+ * 解決済みのパスを、テキストとして解釈せずにOSのエクスプローラー/ファインダーで表示します。
+ * @param resolvedPath ファイルシステムのパス。
+ */
+async function revealLiteralPath(resolvedPath: string): Promise<void> {
+    const config = loadConfig();
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+    const existing = await findExistingPath(resolvedPath, platformHandler, config);
+    if (existing) {
+        await revealExistingPath(existing, platformHandler, config);
+    }
+}
+
+/**
+ * 存在するパスをOSのエクスプローラー/ファインダーで表示し、表示できた場合は履歴に記録します。
+ * @param existing 正規化されたパスとファイル情報。
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー。
+ * @param config 拡張機能の設定。
+ */
+async function revealExistingPath(
+    existing: { path: string; stats: Stats },
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<void> {
+    const opened = await platformHandler.openPath(
+        existing.path,
+        existing.stats.isFile(),
+        resolveExplorerCommand(process.platform, config, existing.stats.isFile())
+    );
+    if (opened) {
+        await notifyPathOpened(config, existing.path, existing.path, 'reveal');
+    }
+}
+
+/**
+ * ファイルの種別に関わらず、パスをOSの既定のアプリケーションで開きます。
+ * @param rawText パスを表すテキスト。
+ */
+async function openWithDefaultAppFromText(rawText: string): Promise<void> {
+    const config = loadConfig();
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+
+    const existing = await resolveExistingPath(rawText, platformHandler, config);
+    if (existing && await platformHandler.openWithDefaultApp(existing.path)) {
+        await notifyPathOpened(config, existing.path, existing.path, 'openDefault');
+    }
+}
+
+/**
+ * 解決済みのパスを、テキストとして解釈せずに適切な方法で開きます。
+ * @param resolvedPath ファイルシステムのパス。
+ */
+async function openLiteralPath(resolvedPath: string): Promise<void> {
+    const config = loadConfig();
+    const platformHandler = getPlatformHandler(config);
+    if (platformHandler) {
+        await processPath(resolvedPath, platformHandler, config);
+    }
+}
+
+/**
+ * 解決済みのパスを、テキストとして解釈せずにOSの既定のアプリケーションで開きます。
+ * @param resolvedPath ファイルシステムのパス。
+ */
+async function openLiteralPathWithDefaultApp(resolvedPath: string): Promise<void> {
+    const config = loadConfig();
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+
+    const existing = await findExistingPath(resolvedPath, platformHandler, config);
+    if (existing && await platformHandler.openWithDefaultApp(existing.path)) {
+        await notifyPathOpened(config, existing.path, existing.path, 'openDefault');
+    }
+}
+
+// 最後に使用したパスの操作を保存するキー（globalState）
+const LAST_PATH_ACTIONS_KEY = 'openInExplorer.lastPathActions';
+
+// 最後に使用したパスの操作の保存先（activate で設定する）
+let pathActionMemory: vscode.Memento | undefined;
+
+// パスの操作の表示名とアイコン
+const PATH_ACTION_ITEMS: { [key in PathActionId]: { icon: string; message: LocalizedMessage } } = {
+    reveal: { icon: 'folder-opened', message: MESSAGES.ACTION_REVEAL },
+    openInVSCode: { icon: 'go-to-file', message: MESSAGES.ACTION_OPEN_IN_VSCODE },
+    revealInSideBar: { icon: 'list-tree', message: MESSAGES.ACTION_REVEAL_IN_SIDE_BAR },
+    openInNewWindow: { icon: 'empty-window', message: MESSAGES.ACTION_OPEN_IN_NEW_WINDOW },
+    addToWorkspace: { icon: 'root-folder', message: MESSAGES.ACTION_ADD_TO_WORKSPACE },
+    openTerminal: { icon: 'terminal', message: MESSAGES.ACTION_OPEN_TERMINAL },
+    copyAbsolute: { icon: 'copy', message: MESSAGES.ACTION_COPY_ABSOLUTE },
+    copyRelative: { icon: 'copy', message: MESSAGES.ACTION_COPY_RELATIVE },
+    copyUri: { icon: 'link', message: MESSAGES.ACTION_COPY_URI },
+    openDefault: { icon: 'link-external', message: MESSAGES.OPEN_WITH_DEFAULT_APP }
+};
+
+// パスの履歴を保存するキー（globalState・workspaceState）
+const PATH_HISTORY_KEY = 'openInExplorer.pathHistory';
+
+/**
+ * 開いたパスの履歴を、設定された範囲（すべてのウィンドウ・ワークスペースごと）に保存するクラス。
+ */
+class PathHistory {
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    /**
+     * 設定された範囲の保存先を取得します。
+     * @param config 拡張機能の設定
+     * @returns 保存先
+     */
+    private getState(config: ExtensionConfig): vscode.Memento {
+        return config.historyScope === 'workspace' ? this.context.workspaceState : this.context.globalState;
+    }
+
+    /**
+     * 履歴を取得します。
+     * @param config 拡張機能の設定
+     * @returns 履歴（ピン留めした項目を先頭に新しい順）
+     */
+    get(config: ExtensionConfig): HistoryEntry[] {
+        return sortHistory(sanitizeHistory(this.getState(config).get(PATH_HISTORY_KEY)));
+    }
+
+    /**
+     * 履歴を更新します。
+     * @param config 拡張機能の設定
+     * @param update 現在の履歴から更新後の履歴を作成する関数
+     */
+    async update(config: ExtensionConfig, update: (entries: HistoryEntry[]) => HistoryEntry[]): Promise<void> {
+        await this.getState(config).update(PATH_HISTORY_KEY, update(this.get(config)));
+    }
+
+    /**
+     * 開いたパスを履歴に記録します。
+     * @param config 拡張機能の設定
+     * @param input 処理したパス
+     * @param target 実際に開いたパス
+     * @param action 実行した動作
+     */
+    async record(config: ExtensionConfig, input: string, target: string, action: string): Promise<void> {
+        const entry: HistoryEntry = { input, target, action, timestamp: Date.now() };
+        await this.update(config, entries => addHistoryEntry(entries, entry, config.historySize, process.platform === 'win32'));
+    }
+}
+
+let pathHistory: PathHistory | undefined;
+
+// パスを開いた後に発生するイベント（公開APIの onDidOpenPath）
+let pathOpenedEmitter: vscode.EventEmitter<PathOpenedEvent> | undefined;
+
+/**
+ * パスを開いたことを履歴に記録し、公開APIのイベントで通知します。
+ * @param config 拡張機能の設定
+ * @param input 処理したパス
+ * @param target 実際に開いたパス
+ * @param action 実行した動作
+ */
+async function notifyPathOpened(config: ExtensionConfig, input: string, target: string, action: string): Promise<void> {
+    await pathHistory?.record(config, input, target, action);
+    pathOpenedEmitter?.fire({ input, path: target, action });
+}
+
+/**
+ * 履歴から開くパスをクイックピックで選択させます。
+ * 表示時に各パスの存在を確認し、見つからないパスには印を付けます。
+ * 項目のボタンでピン留めの切り替え、タイトルのボタンで履歴の消去を行います。
+ */
+async function showPathHistory(): Promise<void> {
+    const config = loadConfig();
+    const language = config.language;
+    const history = pathHistory;
+    if (!history) {
+        return;
+    }
+
+    type HistoryItem = vscode.QuickPickItem & { entry: HistoryEntry };
+    const pinButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('pin'),
+        tooltip: getLocalizedMessage(MESSAGES.HISTORY_PIN, language)
+    };
+    const unpinButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('pinned'),
+        tooltip: getLocalizedMessage(MESSAGES.HISTORY_UNPIN, language)
+    };
+    const clearButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('clear-all'),
+        tooltip: getLocalizedMessage(MESSAGES.HISTORY_CLEAR, language)
+    };
+    const missingTargets = new Set<string>();
+    const locale = language === 'ja' ? 'ja-JP' : 'en-US';
+
+    const toItems = (entries: HistoryEntry[]): HistoryItem[] => entries.map(entry => {
+        const missing = missingTargets.has(entry.target);
+        const details = [new Date(entry.timestamp).toLocaleString(locale), entry.action];
+        if (entry.target !== entry.input) {
+            details.push(`→ ${entry.target}`);
+        }
+        return {
+            label: `$(${missing ? 'warning' : entry.pinned ? 'pinned' : 'history'}) ${path.basename(entry.input) || entry.input}`,
+            description: entry.input,
+            detail: missing ? `$(warning) ${getLocalizedMessage(MESSAGES.HISTORY_TARGET_MISSING, language)} · ${details.join(' · ')}` : details.join(' · '),
+            buttons: [entry.pinned ? unpinButton : pinButton],
+            entry
+        };
+    });
+
+    const quickPick = vscode.window.createQuickPick<HistoryItem>();
+    quickPick.placeholder = getLocalizedMessage(MESSAGES.SELECT_RECENT_PATH, language);
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    quickPick.buttons = [clearButton];
+    quickPick.items = toItems(history.get(config));
+
+    const refresh = () => {
+        quickPick.items = toItems(history.get(config));
+    };
+
+    // 履歴のパスの存在を確認（ネットワークのフォルダは時間がかかるため、表示後に行う）
+    quickPick.busy = true;
+    void Promise.all(history.get(config).map(async entry => {
+        if (!await fileExists(entry.target)) {
+            missingTargets.add(entry.target);
+        }
+    })).then(() => {
+        quickPick.busy = false;
+        refresh();
+    });
+
+    const picked = await new Promise<HistoryEntry | undefined>(resolve => {
+        quickPick.onDidTriggerItemButton(async event => {
+            await history.update(config, entries => togglePinned(entries, event.item.entry.target));
+            refresh();
+        });
+        quickPick.onDidTriggerButton(async button => {
+            if (button === clearButton) {
+                await history.update(config, clearHistory);
+                refresh();
+            }
+        });
+        quickPick.onDidAccept(() => {
+            resolve(quickPick.selectedItems[0]?.entry);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+
+    if (!picked) {
+        return;
+    }
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+    // 履歴には解決済みのパスを記録しているため、実際に開いたパスを記録した動作で直接開く
+    const existing = await findExistingPath(picked.target, platformHandler, config);
+    if (!existing) {
+        return;
+    }
+    if ((PATH_ACTIONS as string[]).includes(picked.action)) {
+        await runPathAction(picked.action as PathActionId, existing.path, existing.stats, platformHandler, config);
+    } else {
+        // 規則による動作（openWith・profile・preview）は規則を評価し直す
+        await processPath(existing.path, platformHandler, config);
+    }
+}
+
+/**
+ * パスを解決し、実行する操作をクイックピックで選択させます。
+ * 最後に使用した操作はファイルの種類ごとに記憶し、次回は一覧の先頭に表示します。
+ * @param rawText パスを表すテキスト。
+ */
+async function showPathActions(rawText: string): Promise<void> {
+    const config = loadConfig();
+    const language = config.language;
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+
+    const existing = await resolveExistingPath(rawText, platformHandler, config);
+    if (!existing) {
+        return;
+    }
+
+    const isFile = existing.stats.isFile();
+    const memoryKey = getActionMemoryKey(existing.path, isFile);
+    const lastActions = pathActionMemory?.get<{ [key: string]: string }>(LAST_PATH_ACTIONS_KEY, {}) ?? {};
+    const actions = orderActions(getAvailableActions(isFile), lastActions[memoryKey]);
+    const lastUsedMark = `(${getLocalizedMessage(MESSAGES.LAST_USED_ACTION_MARK, language)})`;
+
+    const items = actions.map(action => ({
+        label: `$(${PATH_ACTION_ITEMS[action].icon}) ${getLocalizedMessage(PATH_ACTION_ITEMS[action].message, language)}`,
+        description: action === lastActions[memoryKey] ? lastUsedMark : undefined,
+        action
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `${getLocalizedMessage(MESSAGES.SELECT_PATH_ACTION, language)} (${existing.path})`
+    });
+    if (!picked) {
+        return;
+    }
+
+    await pathActionMemory?.update(LAST_PATH_ACTIONS_KEY, { ...lastActions, [memoryKey]: picked.action });
+    await runPathAction(picked.action, existing.path, existing.stats, platformHandler, config);
+}
+
+/**
+ * パスに対する操作を実行します。
+ * フォルダを対象とする操作では、ファイルの場合はその親フォルダを使用します。
+ * @param action 実行する操作
+ * @param filePath 対象のパス
+ * @param stats 対象のファイル情報
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー
+ * @param config 拡張機能の設定
+ */
+async function runPathAction(
+    action: PathActionId,
+    filePath: string,
+    stats: Stats,
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig
+): Promise<void> {
+    const language = config.language;
+    const isFile = stats.isFile();
+    const uri = vscode.Uri.file(filePath);
+    const folderUri = vscode.Uri.file(isFile ? path.dirname(filePath) : filePath);
+
+    const copy = async (text: string) => {
+        await vscode.env.clipboard.writeText(text);
+        vscode.window.setStatusBarMessage(`$(check) ${getLocalizedMessage(MESSAGES.PATH_COPIED, language)}: ${text}`, 5000);
+    };
+
+    // 実際に行った動作（キャンセル・失敗した場合はundefined）
+    let taken: string | undefined = action;
+    try {
+        switch (action) {
+            case 'reveal': {
+                const command = resolveExplorerCommand(process.platform, config, isFile);
+                taken = await platformHandler.openPath(filePath, isFile, command) ? action : undefined;
+                break;
+            }
+            case 'openInVSCode': {
+                let fileType: Promise<FileTypeInfo> | undefined;
+                const getFileType = () => fileType ??= detectFileTypeOfPath(filePath);
+                taken = await openFileInVSCode(filePath, stats.size, getFileType, platformHandler, config);
+                break;
+            }
+            case 'revealInSideBar':
+                await vscode.commands.executeCommand('revealInExplorer', uri);
+                break;
+            case 'openInNewWindow':
+                await vscode.commands.executeCommand('vscode.openFolder', folderUri, { forceNewWindow: true });
+                break;
+            case 'addToWorkspace': {
+                const count = vscode.workspace.workspaceFolders?.length ?? 0;
+                if (!vscode.workspace.updateWorkspaceFolders(count, 0, { uri: folderUri })) {
+                    handleError(MESSAGES.ADD_TO_WORKSPACE_ERROR);
+                    return;
+                }
+                break;
+            }
+            case 'openTerminal':
+                vscode.window.createTerminal({ cwd: folderUri.fsPath, name: path.basename(folderUri.fsPath) }).show();
+                break;
+            case 'copyAbsolute':
+                await copy(filePath);
+                break;
+            case 'copyRelative':
+                // ワークスペース外のパスは絶対パスのままコピーされる
+                await copy(vscode.workspace.asRelativePath(uri, false));
+                break;
+            case 'copyUri':
+                await copy(uri.toString());
+                break;
+            case 'openDefault':
+                taken = await platformHandler.openWithDefaultApp(filePath) ? action : undefined;
+                break;
+        }
+        // コピーはパスを開く操作ではないため通知しない
+        if (taken && !taken.startsWith('copy')) {
+            await notifyPathOpened(config, filePath, filePath, taken);
+        }
+    } catch (error: any) {
+        handleError(`${getLocalizedMessage(MESSAGES.PATH_ACTION_ERROR, language)} ${error.message || ''}`, error);
+    }
+}
+
+/**
+ * 複数のパスを一括で処理した結果
+ */
+interface BatchResult {
+    opened: { folder: string; paths: string[] }[];    // エクスプローラーで開いたフォルダと対象のパス
+    missing: string[];                                 // 存在しなかったパス
+    rejected: { text: string; reason: string }[];      // 検証で拒否された・開けなかったパスと理由
+}
+
+/**
+ * 複数のパスを一括でOSのエクスプローラー/ファインダーで開きます。
+ * 各パスを個別に検証し、同じ親フォルダに属するパスは1つのウィンドウにまとめます。
+ * エラーはパスごとに通知せず、最後に結果の概要をまとめて表示します。
+ * @param rawTexts パスを表すテキストの配列。
+ * @param profileName 使用するエクスプローラープロファイル名（任意）。
+ */
+async function openPathsInBatch(rawTexts: string[], profileName?: string): Promise<void> {
+    const config = loadConfigWithProfile(profileName);
+    const language = config.language;
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+
+    const result: BatchResult = { opened: [], missing: [], rejected: [] };
+    const resolvedPaths: { text: string; path: string }[] = [];
+    for (const rawText of rawTexts) {
+        // 一括処理では候補の選択を求めず、優先順位の最も高い候補を使用する
+        const resolved = await resolvePathText(rawText, platformHandler, config, 'first');
+        if (resolved.kind === 'error') {
+            result.rejected.push({ text: rawText, reason: formatResolveError(resolved, language) });
+        } else if (resolved.kind === 'resolved') {
+            resolvedPaths.push({ text: rawText, path: resolved.path });
+        }
+    }
+
+    await openBatchTargets(resolvedPaths, platformHandler, config, result);
+}
+
+/**
+ * 解決済みのパス（エクスプローラービューで選択されたリソースなど）を一括でOSのエクスプローラー/ファインダーで開きます。
+ * パスはテキストとして解釈せず（引用符・位置指定・変数の処理を行わず）、そのまま使用します。
+ * @param paths 開くパスの配列。
+ */
+async function openResolvedPathsInBatch(paths: string[]): Promise<void> {
+    const config = loadConfig();
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+    await openBatchTargets(
+        paths.map(resolvedPath => ({ text: resolvedPath, path: resolvedPath })),
+        platformHandler,
+        config,
+        { opened: [], missing: [], rejected: [] }
+    );
+}
+
+/**
+ * 解決したパスの存在を確認し、同じ親フォルダに属するパスを1つのウィンドウにまとめて開き、結果の概要を表示します。
+ * @param resolvedPaths 元のテキストと解決したパスの配列。
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー。
+ * @param config 拡張機能の設定。
+ * @param result 解決の段階までの結果（開いた結果を追加する）。
+ */
+async function openBatchTargets(
+    resolvedPaths: { text: string; path: string }[],
+    platformHandler: PlatformHandler,
+    config: ExtensionConfig,
+    result: BatchResult
+): Promise<void> {
+    const language = config.language;
+    // 親フォルダごとにまとめた対象（フォルダ自体を開く場合はフォルダをキーにする）
+    const targetsByFolder = new Map<string, { path: string; isFile: boolean }[]>();
+
+    for (const { text: rawText, path: resolvedPath } of resolvedPaths) {
+        let normalizedPath = platformHandler.normalizePath(resolvedPath);
+        // 一括処理ではリンクごとの確認を行わず、自動追跡の設定に従う
+        if (config.followSymlinks) {
+            const chain = await resolveSymlinkChain(normalizedPath);
+            if (chain.status !== 'ok') {
+                const message = chain.status === 'dangling' ? MESSAGES.SYMLINK_DANGLING : MESSAGES.SYMLINK_LOOP;
+                result.rejected.push({ text: rawText, reason: `${getLocalizedMessage(message, language)} ${chain.finalPath}` });
+                continue;
+            }
+            normalizedPath = chain.finalPath;
+        }
+
+        let stats;
+        try {
+            stats = await fs.stat(normalizedPath);
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+                result.missing.push(normalizedPath);
+            } else {
+                result.rejected.push({ text: rawText, reason: error.message || String(error) });
+            }
+            continue;
+        }
+
+        const isFile = stats.isFile();
+        const folder = isFile ? path.dirname(normalizedPath) : normalizedPath;
+        const targets = targetsByFolder.get(folder) ?? [];
+        if (!targets.some(target => target.path === normalizedPath)) {
+            targets.push({ path: normalizedPath, isFile });
+        }
+        targetsByFolder.set(folder, targets);
+    }
+
+    for (const [folder, targets] of targetsByFolder) {
+        // 対象が1つのファイルだけの場合はそのファイルを選択した状態で開く
+        const opened = targets.length === 1 && targets[0].isFile
+            ? await platformHandler.openPath(targets[0].path, true, resolveExplorerCommand(process.platform, config, true))
+            : await platformHandler.openPath(folder, false, resolveExplorerCommand(process.platform, config, false));
+        if (!opened) {
+            const reason = getLocalizedMessage(MESSAGES.BATCH_OPEN_FAILED, language);
+            result.rejected.push(...targets.map(target => ({ text: target.path, reason })));
+            continue;
+        }
+        result.opened.push({ folder, paths: targets.map(target => target.path) });
+        for (const target of targets) {
+            await notifyPathOpened(config, target.path, target.path, 'reveal');
+        }
+    }
+
+    await showBatchSummary(result, language);
+}
+
+/**
+ * 一括処理の結果を1つの通知にまとめて表示し、詳細を出力チャンネルに書き出します。
+ * @param result 一括処理の結果。
+ * @param language 使用する言語。
+ */
+async function showBatchSummary(result: BatchResult, language: string): Promise<void> {
+    const openedLabel = getLocalizedMessage(MESSAGES.BATCH_OPENED, language);
+    const missingLabel = getLocalizedMessage(MESSAGES.BATCH_MISSING, language);
+    const rejectedLabel = getLocalizedMessage(MESSAGES.BATCH_REJECTED, language);
+
+    // 詳細を出力チャンネルに書き出す
+    const channel = getOutputChannel();
+    channel.appendLine(`[${new Date().toLocaleString()}]`);
+    for (const opened of result.opened) {
+        channel.appendLine(`  ${openedLabel}: ${opened.folder}`);
+        for (const openedPath of opened.paths) {
+            channel.appendLine(`    ${openedPath}`);
+        }
+    }
+    for (const missing of result.missing) {
+        channel.appendLine(`  ${missingLabel}: ${missing}`);
+    }
+    for (const rejected of result.rejected) {
+        channel.appendLine(`  ${rejectedLabel}: ${rejected.text} (${rejected.reason})`);
+    }
+
+    const summary = `${openedLabel}: ${result.opened.length}, ` +
+        `${missingLabel}: ${result.missing.length}, ` +
+        `${rejectedLabel}: ${result.rejected.length}`;
+    const detailsOption = getLocalizedMessage(MESSAGES.SHOW_DETAILS, language);
+    const hasProblems = result.missing.length > 0 || result.rejected.length > 0;
+    const selected = hasProblems
+        ? await vscode.window.showWarningMessage(summary, detailsOption)
+        : await vscode.window.showInformationMessage(summary, detailsOption);
+    if (selected === detailsOption) {
+        channel.show(true);
+    }
+}
+
+/**
+ * エディタのすべての選択範囲（マルチカーソルを含む）からパスを表すテキストを集めます。
+ * 選択範囲は1行1パスとして分割し、選択のないカーソルはカーソル位置のパスを検出します。
+ * @param editor 対象のエディタ。
+ * @returns パスを表すテキストの配列（重複は除外）
+ */
+function collectSelectedPathTexts(editor: vscode.TextEditor): string[] {
+    const results: string[] = [];
+    for (const selection of editor.selections) {
+        let texts: string[];
+        if (selection.isEmpty) {
+            // 選択がない場合はカーソル位置のパスを検出する
+            const line = editor.document.lineAt(selection.active.line);
+            const match = findPathAtPosition(line.text, selection.active.character);
+            texts = match ? [match.text.trim()] : [];
+        } else {
+            texts = splitPathList(editor.document.getText(selection));
+        }
+        for (const text of texts) {
+            if (text && !results.includes(text)) {
+                results.push(text);
+            }
+        }
+    }
+    return results;
+}
+
+/**
+ * コマンドを実行するためのURIを作成します。
+ * @param command コマンドID。
+ * @param args コマンドに渡す引数。
+ * @returns command: スキームのURI
+ */
+function createCommandUri(command: string, ...args: unknown[]): vscode.Uri {
+    return vscode.Uri.parse(`command:${command}?${encodeURIComponent(JSON.stringify(args))}`);
+}
+
+/**
+ * 行内の絶対パスのうち、現在のプラットフォームで有効なものを検出します。
+ * 行・列の位置指定は検証前に取り除き、他のプラットフォーム形式のパスは変換してから検証します。
+ * @param lineText 行のテキスト。
+ * @param platformHandler 使用するプラットフォームハンドラ。
+ * @returns 有効なパスの範囲の配列
+ */
+function findValidPathsInLine(lineText: string, platformHandler: PlatformHandler) {
+    return findPathCandidates(lineText)
+        .filter(match => {
+            const normalized = platformHandler.normalizePath(parsePositionSuffix(match.text).path);
+            return platformHandler.validatePath(normalized, false) === null;
+        });
+}
+
+/**
+ * ドキュメント内の絶対パスをクリック可能なリンクにするプロバイダ。
+ * Ctrl+クリックで extension.openInExplorer と同じ処理を行います。
+ */
+class PathLinkProvider implements vscode.DocumentLinkProvider {
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const config = loadConfig();
+        const platformHandler = PLATFORM_HANDLERS[process.platform];
+        if (!config.enableDocumentLinks || !platformHandler) {
+            return [];
+        }
+
+        const tooltip = getLocalizedMessage(MESSAGES.LINK_TOOLTIP, config.language);
+        const links: vscode.DocumentLink[] = [];
+        for (let line = 0; line < document.lineCount; line++) {
+            const lineText = document.lineAt(line).text;
+            for (const match of findValidPathsInLine(lineText, platformHandler)) {
+                const range = new vscode.Range(line, match.start, line, match.end);
+                const link = new vscode.DocumentLink(range, createCommandUri('extension.openDetectedPath', match.text));
+                link.tooltip = tooltip;
+                links.push(link);
+            }
+        }
+        return links;
+    }
+}
+
+/**
+ * ターミナルに出力された絶対パスのリンク
+ */
+interface PathTerminalLink extends vscode.TerminalLink {
+    text: string;   // パスを表すテキスト（行・列の位置指定を含む）
+}
+
+/**
+ * ターミナルに出力された絶対パスをクリック可能なリンクにするプロバイダ。
+ * クリックで extension.openInExplorer と同じ処理を行います。
+ */
+class PathTerminalLinkProvider implements vscode.TerminalLinkProvider<PathTerminalLink> {
+    provideTerminalLinks(context: vscode.TerminalLinkContext): PathTerminalLink[] {
+        const config = loadConfig();
+        const platformHandler = PLATFORM_HANDLERS[process.platform];
+        if (!config.enableDocumentLinks || !platformHandler) {
+            return [];
+        }
+
+        const tooltip = getLocalizedMessage(MESSAGES.LINK_TOOLTIP, config.language);
+        return findValidPathsInLine(context.line, platformHandler).map(match => ({
+            startIndex: match.start,
+            length: match.end - match.start,
+            tooltip,
+            text: match.text
+        }));
+    }
+
+    async handleTerminalLink(link: PathTerminalLink): Promise<void> {
+        await openPathFromText(link.text);
+    }
+}
+
+/**
+ * アクティブなターミナルで選択されているテキストを取得します。
+ * Terminal.selection は VS Code 1.100 の型定義に含まれないため、使用できない場合は
+ * 選択範囲をクリップボードにコピーして読み取り、クリップボードの内容を元に戻します。
+ * 選択がない場合はコピーされないため、事前に書き込んだ目印が残っているかで判定します。
+ * 画像・ファイルなどテキスト以外のクリップボードの内容は元に戻せず、履歴ツールには目印が記録されるため、
+ * コマンドは選択がある場合（terminalTextSelected）のみ有効にしています（package.json の enablement）。
+ * @returns 選択されているテキスト（選択がない場合は空文字列）
+ */
+async function getTerminalSelection(): Promise<string> {
+    const terminal = vscode.window.activeTerminal as (vscode.Terminal & { selection?: string }) | undefined;
+    if (!terminal) {
+        return '';
+    }
+    if (typeof terminal.selection === 'string') {
+        return terminal.selection;
+    }
+
+    const previous = await vscode.env.clipboard.readText();
+    const sentinel = `open-in-explorer:${randomUUID()}`;
+    await vscode.env.clipboard.writeText(sentinel);
+    try {
+        await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+        const selection = await vscode.env.clipboard.readText();
+        return selection === sentinel ? '' : selection;
+    } finally {
+        await vscode.env.clipboard.writeText(previous);
+    }
+}
+
+/**
+ * ターミナルで選択されたパスを開きます。複数行が選択されている場合は行ごとのパスを一括で処理します。
+ */
+async function openTerminalSelection(): Promise<void> {
+    const pathTexts = (await getTerminalSelection())
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line !== '');
+    if (pathTexts.length > 1) {
+        await openPathsInBatch(pathTexts);
+    } else {
+        await openPathFromText(pathTexts[0] ?? '');
+    }
+}
+
+/**
+ * extension.openInExplorer を、呼び出し元に応じた引数で実行します。
+ * エクスプローラービュー・タブのリソースは存在が分かっているため、種別に関わらずOSのエクスプローラーで表示します。
+ * @param arg 1番目の引数
+ * @param uris エクスプローラービューで複数選択されたリソース（任意）
+ */
+async function openInExplorerWithArgument(arg: OpenInExplorerArgument, uris?: vscode.Uri[]): Promise<void> {
+    const target = classifyOpenInExplorerArgument(arg, uris);
+    switch (target.kind) {
+        case 'resources':
+            // リソースのパスはファイルシステムのパスのため、テキストとして解釈せずにそのまま使用する
+            if (target.paths.length === 0) {
+                handleError(MESSAGES.NO_VALID_PATH);
+            } else if (target.paths.length > 1) {
+                await openResolvedPathsInBatch(target.paths);
+            } else {
+                await revealLiteralPath(target.paths[0]);
+            }
+            return;
+        case 'text':
+            await openPathFromText(target.text);
+            return;
+        default:
+            await openEditorSelection(target.profile);
+    }
+}
+
+/**
+ * 絶対パスにホバーした際に、存在有無・種別・サイズ・更新日時と操作用のリンクを表示するプロバイダ。
+ */
+class PathHoverProvider implements vscode.HoverProvider {
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const config = loadConfig();
+        const platformHandler = PLATFORM_HANDLERS[process.platform];
+        if (!config.enableHover || !platformHandler) {
+            return undefined;
+        }
+
+        const lineText = document.lineAt(position.line).text;
+        const match = findValidPathsInLine(lineText, platformHandler)
+            .find(m => position.character >= m.start && position.character <= m.end);
+        if (!match) {
+            return undefined;
+        }
+
+        const language = config.language;
+        const normalizedPath = platformHandler.normalizePath(parsePositionSuffix(match.text).path);
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = {
+            enabledCommands: ['extension.openDetectedPath', 'extension.revealDetectedPath', 'extension.openDetectedPathWithDefaultApp']
+        };
+        markdown.supportThemeIcons = true;
+        markdown.appendText(normalizedPath);
+        markdown.appendMarkdown('\n\n');
+
+        try {
+            const stats = await fs.stat(normalizedPath);
+            const kind = stats.isDirectory() ? MESSAGES.HOVER_FOLDER : MESSAGES.HOVER_FILE;
+            markdown.appendMarkdown(`$(check) ${getLocalizedMessage(MESSAGES.HOVER_EXISTS, language)} (${getLocalizedMessage(kind, language)})  \n`);
+            if (!stats.isDirectory()) {
+                markdown.appendMarkdown(`${getLocalizedMessage(MESSAGES.HOVER_SIZE, language)}: ${formatFileSize(stats.size)}  \n`);
+            }
+            markdown.appendMarkdown(`${getLocalizedMessage(MESSAGES.HOVER_MODIFIED, language)}: ${stats.mtime.toLocaleString()}\n\n`);
+            markdown.appendMarkdown(
+                `[${getLocalizedMessage(MESSAGES.REVEAL_IN_EXPLORER, language)}](${createCommandUri('extension.revealDetectedPath', match.text)})` +
+                ` | [${getLocalizedMessage(MESSAGES.OPEN_PATH, language)}](${createCommandUri('extension.openDetectedPath', match.text)})` +
+                ` | [${getLocalizedMessage(MESSAGES.OPEN_WITH_DEFAULT_APP, language)}](${createCommandUri('extension.openDetectedPathWithDefaultApp', match.text)})`
+            );
+        } catch {
+            markdown.appendMarkdown(`$(error) ${getLocalizedMessage(MESSAGES.HOVER_NOT_EXISTS, language)}`);
+        }
+
+        const range = new vscode.Range(position.line, match.start, position.line, match.end);
+        return new vscode.Hover(markdown, range);
+    }
+}
+
+// ブックマークの状態を確認する際のタイムアウト（ミリ秒、応答しないネットワークのフォルダ向け）
+const BOOKMARK_STAT_TIMEOUT = 3000;
+
+// 個人用のブックマークを保存するキー（globalState）
+const PERSONAL_BOOKMARKS_KEY = 'openInExplorer.personalBookmarks';
+
+/**
+ * ブックマークのパスの状態
+ * - ok: 存在する
+ * - missing: 存在しない
+ * - unreachable: 応答がない、またはアクセスできない
+ */
+type BookmarkStatus = 'ok' | 'missing' | 'unreachable';
+
+/**
+ * ブックマークのツリーのノード
+ * - group: グループ（ユーザーが定義したフォルダ）
+ * - bookmark: ブックマーク（shared は設定から読み込んだもの）
+ * - entry: ブックマークしたフォルダ内のファイル・フォルダ
+ */
+type BookmarkNode =
+    | { kind: 'group'; name: string; bookmarks: { bookmark: Bookmark; shared: boolean }[] }
+    | { kind: 'bookmark'; bookmark: Bookmark; shared: boolean }
+    | { kind: 'entry'; path: string; isDirectory: boolean };
+
+/**
+ * パスの状態を確認します。応答がない場合はタイムアウトで打ち切ります。
+ * @param targetPath 確認するパス
+ * @returns 状態とファイル情報
+ */
+async function checkBookmarkStatus(targetPath: string): Promise<{ status: BookmarkStatus; stats?: Stats }> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<{ status: BookmarkStatus }>(resolve => {
+        timer = setTimeout(() => resolve({ status: 'unreachable' }), BOOKMARK_STAT_TIMEOUT);
+    });
+    const check = fs.stat(targetPath).then(
+        stats => ({ status: 'ok' as BookmarkStatus, stats }),
+        (error: any) => ({ status: (error.code === 'ENOENT' || error.code === 'ENOTDIR' ? 'missing' : 'unreachable') as BookmarkStatus })
+    );
+    try {
+        return await Promise.race([check, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * 設定と個人用の保存先のブックマークを、グループごとのツリーとして提供するプロバイダ。
+ * フォルダの内容は展開されたときに読み込みます。
+ */
+class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<BookmarkNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * 個人用のブックマークを取得します。
+     * @returns ブックマーク
+     */
+    getPersonalBookmarks(): Bookmark[] {
+        return sanitizeBookmarks(this.state.get(PERSONAL_BOOKMARKS_KEY));
+    }
+
+    /**
+     * 個人用のブックマークを更新し、ツリーを再表示します。
+     * @param update 現在のブックマークから更新後のブックマークを作成する関数
+     */
+    async updatePersonalBookmarks(update: (bookmarks: Bookmark[]) => Bookmark[]): Promise<void> {
+        await this.state.update(PERSONAL_BOOKMARKS_KEY, update(this.getPersonalBookmarks()));
+        this.refresh();
+    }
+
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * ブックマークのパスを、環境変数やマッピングを適用した実際のパスに解決します。
+     * 個人用のブックマークは追加時に解決したパスを記録しているため、そのまま使用します。
+     * @param bookmark ブックマーク
+     * @param shared 設定から読み込んだ（チームで共有する）ブックマークの場合はtrue
+     * @returns 解決したパス（解決できない場合は記録されたパス）
+     */
+    async resolveBookmarkPath(bookmark: Bookmark, shared: boolean): Promise<string> {
+        const platformHandler = PLATFORM_HANDLERS[process.platform];
+        if (!shared || !platformHandler) {
+            return bookmark.path;
+        }
+        const config = loadConfig();
+        const resolved = await resolvePathText(bookmark.path, platformHandler, config, 'first');
+        return resolved.kind === 'resolved' ? platformHandler.normalizePath(resolved.path) : bookmark.path;
+    }
+
+    async getTreeItem(node: BookmarkNode): Promise<vscode.TreeItem> {
+        const language = loadConfig().language;
+        if (node.kind === 'group') {
+            const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = new vscode.ThemeIcon('folder-library');
+            item.contextValue = 'bookmarkGroup';
+            return item;
+        }
+
+        if (node.kind === 'entry') {
+            const item = new vscode.TreeItem(
+                vscode.Uri.file(node.path),
+                node.isDirectory ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+            );
+            item.tooltip = node.path;
+            item.contextValue = node.isDirectory ? 'bookmark.entry.folder' : 'bookmark.entry.file';
+            // フォルダはクリックで展開するため、ファイルのみクリックで開く
+            if (!node.isDirectory) {
+                item.command = { command: 'extension.bookmarkOpen', title: '', arguments: [node] };
+            }
+            return item;
+        }
+
+        const targetPath = await this.resolveBookmarkPath(node.bookmark, node.shared);
+        const { status, stats } = await checkBookmarkStatus(targetPath);
+        const isDirectory = stats?.isDirectory() ?? false;
+        const item = new vscode.TreeItem(
+            getBookmarkLabel(node.bookmark),
+            isDirectory ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        const statusMessages: { [key in BookmarkStatus]: LocalizedMessage } = {
+            ok: MESSAGES.HOVER_EXISTS,
+            missing: MESSAGES.HOVER_NOT_EXISTS,
+            unreachable: MESSAGES.BOOKMARK_UNREACHABLE
+        };
+        const icons: { [key in BookmarkStatus]: vscode.ThemeIcon } = {
+            ok: new vscode.ThemeIcon(isDirectory ? 'folder' : 'file'),
+            missing: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+            unreachable: new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('list.errorForeground'))
+        };
+        item.iconPath = icons[status];
+        item.description = status === 'ok' ? targetPath : `${getLocalizedMessage(statusMessages[status], language)} · ${targetPath}`;
+        item.tooltip = [
+            targetPath,
+            getLocalizedMessage(statusMessages[status], language),
+            getLocalizedMessage(node.shared ? MESSAGES.BOOKMARK_SHARED : MESSAGES.BOOKMARK_PERSONAL, language)
+        ].join('\n');
+        item.resourceUri = vscode.Uri.file(targetPath);
+        // 設定から読み込んだブックマークは拡張機能から削除できない
+        item.contextValue = node.shared ? 'bookmark.shared' : 'bookmark.personal';
+        if (!isDirectory) {
+            item.command = { command: 'extension.bookmarkOpen', title: '', arguments: [node] };
+        }
+        return item;
+    }
+
+    async getChildren(node?: BookmarkNode): Promise<BookmarkNode[]> {
+        if (!node) {
+            const bookmarks = [
+                ...loadConfig().bookmarks.map(bookmark => ({ bookmark, shared: true })),
+                ...this.getPersonalBookmarks().map(bookmark => ({ bookmark, shared: false }))
+            ];
+            const sharedSet = new Set(bookmarks.filter(item => item.shared).map(item => item.bookmark));
+            return groupBookmarks(bookmarks.map(item => item.bookmark)).flatMap((group): BookmarkNode[] => {
+                const items = group.bookmarks.map(bookmark => ({ bookmark, shared: sharedSet.has(bookmark) }));
+                return group.name
+                    ? [{ kind: 'group', name: group.name, bookmarks: items }]
+                    : items.map(item => ({ kind: 'bookmark', ...item }));
+            });
+        }
+        if (node.kind === 'group') {
+            return node.bookmarks.map(item => ({ kind: 'bookmark', ...item }));
+        }
+
+        // フォルダの内容は展開されたときに読み込む（フォルダを先に、それぞれ名前順）
+        const folder = node.kind === 'entry' ? node.path : await this.resolveBookmarkPath(node.bookmark, node.shared);
+        try {
+            const entries = await fs.readdir(folder, { withFileTypes: true });
+            return entries
+                .map((entry): BookmarkNode => ({ kind: 'entry', path: path.join(folder, entry.name), isDirectory: entry.isDirectory() }))
+                .sort((a, b) => {
+                    const aIsDirectory = a.kind === 'entry' && a.isDirectory;
+                    const bIsDirectory = b.kind === 'entry' && b.isDirectory;
+                    return Number(bIsDirectory) - Number(aIsDirectory) ||
+                        (a.kind === 'entry' && b.kind === 'entry' ? a.path.localeCompare(b.path) : 0);
+                });
+        } catch (error: any) {
+            console.error('ブックマークのフォルダの読み込みエラー:', error);
+            return [];
+        }
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+let bookmarkProvider: BookmarkTreeProvider | undefined;
+
+/**
+ * ブックマークのノードが指すパスを取得します。
+ * 取得したパスは解決済みのため、テキストとして解釈せずにそのまま開きます。
+ * @param node ブックマークのノード
+ * @returns パス（グループの場合はundefined）
+ */
+async function getBookmarkNodePath(node: BookmarkNode | undefined): Promise<string | undefined> {
+    if (!node || node.kind === 'group') {
+        return undefined;
+    }
+    return node.kind === 'entry' ? node.path : bookmarkProvider?.resolveBookmarkPath(node.bookmark, node.shared);
+}
+
+/**
+ * エディタで選択されたパス、または入力されたパスを個人用のブックマークに追加します。
+ */
+async function addBookmarkFromInput(): Promise<void> {
+    const config = loadConfig();
+    const language = config.language;
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler || !bookmarkProvider) {
+        return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    let rawText = editor ? collectSelectedPathTexts(editor)[0] : undefined;
+    if (!rawText) {
+        rawText = await vscode.window.showInputBox({ prompt: getLocalizedMessage(MESSAGES.BOOKMARK_ENTER_PATH, language) });
+        if (!rawText) {
+            return;
+        }
+    }
+
+    const existing = await resolveExistingPath(rawText, platformHandler, config);
+    if (!existing) {
+        return;
+    }
+
+    // 既存のグループから選ぶか、新しいグループ名を入力する
+    const groups = [...new Set([...config.bookmarks, ...bookmarkProvider.getPersonalBookmarks()]
+        .map(bookmark => bookmark.group?.trim())
+        .filter((group): group is string => !!group))];
+    const noGroup = getLocalizedMessage(MESSAGES.BOOKMARK_NO_GROUP, language);
+    const newGroup = getLocalizedMessage(MESSAGES.BOOKMARK_NEW_GROUP, language);
+    const picked = await vscode.window.showQuickPick(
+        [`$(list-flat) ${noGroup}`, `$(add) ${newGroup}`, ...groups.map(group => `$(folder-library) ${group}`)],
+        { placeHolder: `${getLocalizedMessage(MESSAGES.BOOKMARK_SELECT_GROUP, language)} (${existing.path})` }
+    );
+    if (!picked) {
+        return;
+    }
+    let group: string | undefined = picked.replace(/^\$\([^)]+\) /, '');
+    if (picked === `$(list-flat) ${noGroup}`) {
+        group = undefined;
+    } else if (picked === `$(add) ${newGroup}`) {
+        group = (await vscode.window.showInputBox({ prompt: getLocalizedMessage(MESSAGES.BOOKMARK_ENTER_GROUP, language) }))?.trim();
+        if (!group) {
+            return;
+        }
+    }
+
+    await bookmarkProvider.updatePersonalBookmarks(bookmarks =>
+        addBookmark(bookmarks, group ? { path: existing.path, group } : { path: existing.path }, process.platform === 'win32')
+    );
+    vscode.window.setStatusBarMessage(`$(bookmark) ${getLocalizedMessage(MESSAGES.BOOKMARK_ADDED, language)}: ${existing.path}`, 5000);
+}
+
+// アーカイブ内のテキストのエントリを表示する仮想ドキュメントのスキーム
+const ARCHIVE_SCHEME = 'open-in-explorer-archive';
+
+/**
+ * アーカイブ内のテキストのエントリを読み取り専用の仮想ドキュメントとして提供するプロバイダ。
+ * URIのクエリにアーカイブのパス・エントリ名・文字コードを保存します。
+ */
+class ArchiveEntryProvider implements vscode.TextDocumentContentProvider {
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const params = new URLSearchParams(uri.query);
+        const archivePath = params.get('archive') ?? '';
+        const entryName = params.get('entry') ?? '';
+        const kind = getArchiveKind(archivePath);
+        try {
+            const data = kind ? await readArchiveEntry(archivePath, kind, entryName) : undefined;
+            if (!data) {
+                return `${getLocalizedMessage(MESSAGES.ARCHIVE_ENTRY_NOT_FOUND, loadConfig().language)} ${entryName}`;
+            }
+            return new TextDecoder(params.get('encoding') || 'utf-8').decode(data);
+        } catch (error: any) {
+            return `${getLocalizedMessage(MESSAGES.ARCHIVE_READ_ERROR, loadConfig().language)} ${error.message}`;
+        }
+    }
+}
+
+/**
+ * 存在しないパスの祖先がアーカイブの場合に、アーカイブの内容を表示します。
+ * @param filePath 存在しないパス
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー
+ * @param config 拡張機能の設定
+ * @returns アーカイブとして処理した場合はtrue
+ */
+async function tryBrowseArchive(filePath: string, platformHandler: PlatformHandler, config: ExtensionConfig): Promise<boolean> {
+    const location = await findArchiveLocation(filePath, async candidate => {
+        try {
+            return (await fs.stat(candidate)).isFile();
+        } catch {
+            return false;
+        }
+    });
+    if (!location) {
+        return false;
+    }
+
+    const language = config.language;
+    let entries: ArchiveEntry[];
+    try {
+        entries = await listArchiveEntries(location.archivePath, location.kind);
+    } catch (error: any) {
+        handleError(`${getLocalizedMessage(MESSAGES.ARCHIVE_READ_ERROR, language)} ${error.message}`, error);
+        return true;
+    }
+
+    const files = entries.filter(entry => !entry.isDirectory);
+    const exact = files.find(entry => entry.name === location.entryPath);
+    if (exact) {
+        await openArchiveEntry(location, exact, platformHandler, config);
+        return true;
+    }
+
+    // フォルダを指す場合はその中のエントリ、見つからない場合はすべてのエントリから選択させる
+    const prefix = location.entryPath ? `${location.entryPath}/` : '';
+    const inside = files.filter(entry => entry.name.startsWith(prefix));
+    if (inside.length === 0 && location.entryPath) {
+        vscode.window.showWarningMessage(
+            `${getLocalizedMessage(MESSAGES.ARCHIVE_ENTRY_NOT_FOUND, language)} ${location.entryPath}`
+        );
+    }
+    const items = (inside.length > 0 ? inside : files).map(entry => ({
+        label: `$(file) ${entry.name}`,
+        description: formatFileSize(entry.size),
+        entry
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `${getLocalizedMessage(MESSAGES.SELECT_ARCHIVE_ENTRY, language)} (${path.basename(location.archivePath)})`,
+        matchOnDescription: true
+    });
+    if (picked) {
+        await openArchiveEntry(location, picked.entry, platformHandler, config);
+    }
+    return true;
+}
+
+/**
+ * アーカイブ内のエントリを開きます。
+ * テキストの場合は仮想ドキュメントとして開き、それ以外は一時フォルダに展開してエクスプローラーで表示します。
+ * @param location アーカイブの場所
+ * @param entry 開くエントリ
+ * @param platformHandler プラットフォーム固有の処理を行うハンドラー
+ * @param config 拡張機能の設定
  */
-async function processPath(
-    selectedText: string, 
-    platformHandler: PlatformHandler, 
+async function openArchiveEntry(
+    location: ArchiveLocation,
+    entry: ArchiveEntry,
+    platformHandler: PlatformHandler,
     config: ExtensionConfig
 ): Promise<void> {
     const language = config.language;
-    
-    // パスの正規化
-    let normalizedPath = platformHandler.normalizePath(selectedText);
-    
-    // シンボリックリンクの処理
-    normalizedPath = await handleSymlink(normalizedPath, config);
-    
-    let stats;
+    let data: Buffer | undefined;
     try {
-        stats = await fs.stat(normalizedPath);
+        data = await readArchiveEntry(location.archivePath, location.kind, entry.name);
     } catch (error: any) {
-        if (error.code === 'ENOENT') {
-            handleError(MESSAGES.PATH_NOT_EXISTS);
-        } else {
-            handleError(
-                `${getLocalizedMessage(MESSAGES.FILE_STAT_ERROR, language)}${error.message || ''}`, 
-                error
-            );
+        handleError(`${getLocalizedMessage(MESSAGES.ARCHIVE_READ_ERROR, language)} ${error.message}`, error);
+        return;
+    }
+    if (!data) {
+        handleError(`${getLocalizedMessage(MESSAGES.ARCHIVE_ENTRY_NOT_FOUND, language)} ${entry.name}`);
+        return;
+    }
+
+    const fileType = detectFileType(data.subarray(0, Math.max(config.textFileScanBytes, SIGNATURE_SCAN_BYTES)), path.extname(entry.name), getExtensionLists(config));
+    if (fileType.category === 'text') {
+        const query = new URLSearchParams({ archive: location.archivePath, entry: entry.name });
+        if (fileType.encoding) {
+            query.set('encoding', toDecoderLabel(fileType.encoding));
+        }
+        const uri = vscode.Uri.from({
+            scheme: ARCHIVE_SCHEME,
+            path: `${vscode.Uri.file(location.archivePath).path}/${entry.name}`,
+            query: query.toString()
+        });
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(document, { preview: false });
+        } catch (error: any) {
+            handleError(MESSAGES.TEXT_FILE_OPEN_ERROR, error);
         }
         return;
     }
 
-    const isFile = stats.isFile();
+    // バイナリのエントリは一時フォルダに展開する（アーカイブごとにフォルダを分ける）
+    const archiveId = createHash('sha1').update(location.archivePath).digest('hex').slice(0, 8);
+    const extractRoot = path.join(os.tmpdir(), 'open-in-explorer-archives', `${path.basename(location.archivePath)}-${archiveId}`);
+    const destination = path.join(extractRoot, ...entry.name.split('/'));
+    if (!isPathInside(destination, extractRoot, process.platform === 'win32')) {
+        handleError(`${getLocalizedMessage(MESSAGES.ARCHIVE_EXTRACT_ERROR, language)} ${entry.name}`);
+        return;
+    }
+    try {
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.writeFile(destination, data);
+    } catch (error: any) {
+        handleError(`${getLocalizedMessage(MESSAGES.ARCHIVE_EXTRACT_ERROR, language)} ${error.message}`, error);
+        return;
+    }
+    vscode.window.setStatusBarMessage(
+        `$(package) ${getLocalizedMessage(MESSAGES.ARCHIVE_ENTRY_EXTRACTED, language)}: ${destination}`,
+        5000
+    );
+    await platformHandler.openPath(destination, true, resolveExplorerCommand(process.platform, config, true));
+}
 
-    if (isFile) {
-        // ファイルサイズチェック
-        const fileSize = stats.size;
-        const isLargeFile = fileSize > config.largeFileSizeLimit;
-        
-        // 拡張子がない場合はフォルダとして扱う
-        if (path.extname(normalizedPath) === '') {
-            await platformHandler.openPath(
-                normalizedPath, 
-                isFile, 
-                getPlatformSpecificExplorer(process.platform, config)
-            );
-            return;
+// 大きなファイルのプレビューに使用する仮想ドキュメントのスキーム
+const PREVIEW_SCHEME = 'open-in-explorer-preview';
+
+/**
+ * プレビュー中のドキュメントの状態
+ */
+interface PreviewState {
+    lines: number;         // 読み込む行数（さらに読み込む・追従で増える）
+    end?: number;          // バイト範囲の終了位置（さらに読み込むで増える）
+    size: number;          // 最後に読み込んだ時点のファイルサイズ
+    watcher?: (current: fsSync.Stats) => void;   // 追従中のファイルの監視
+}
+
+/**
+ * 大きなテキストファイルの先頭・末尾の行、またはバイト範囲を読み取り専用の仮想ドキュメントとして提供するプロバイダ。
+ * URIのパスに対象のファイル、クエリにプレビューの指定を保存します。
+ */
+class LargeFilePreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly states = new Map<string, PreviewState>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const query = parsePreviewQuery(uri.query, loadConfig().previewLineCount);
+        const state = this.getState(uri, query);
+        const filePath = getPreviewFilePath(uri);
+        try {
+            let chunk: PreviewChunk;
+            switch (query.mode) {
+                case 'head':
+                    chunk = await readHeadLines(filePath, state.lines, query.encoding);
+                    break;
+                case 'range':
+                    chunk = await readByteRange(filePath, query.start ?? 0, state.end, query.encoding);
+                    break;
+                default:
+                    chunk = await readTailLines(filePath, state.lines, query.encoding);
+            }
+            state.size = chunk.size;
+            return chunk.text;
+        } catch (error: any) {
+            return `${getLocalizedMessage(MESSAGES.PREVIEW_READ_ERROR, loadConfig().language)} ${error.message}`;
         }
+    }
 
-        // MIMEタイプの判定
-        const mimeType = await determineMimeType(normalizedPath);
-        const isTextMime = mimeType.startsWith('text/');
-        
-        if (isTextMime) {
-            // 大きなファイルの場合は確認ダイアログを表示
-            if (isLargeFile && config.confirmLargeFileOpen) {
-                const fileSizeMB = (fileSize / (1024 * 1024)).toFixed(2);
-                const warningMessage = getLocalizedMessage(MESSAGES.LARGE_FILE_WARNING, language);
-                const openNormalOption = getLocalizedMessage(MESSAGES.OPEN_IN_VSCODE, language);
-                const openExplorerOption = getLocalizedMessage(MESSAGES.OPEN_IN_EXPLORER, language);
-                const cancelOption = getLocalizedMessage(MESSAGES.CANCEL, language);
-                
-                const result = await vscode.window.showWarningMessage(
-                    `${warningMessage} (${fileSizeMB} MB)`,
-                    openNormalOption,
-                    openExplorerOption,
-                    cancelOption
-                );
-                
-                if (result === openExplorerOption) {
-                    await platformHandler.openPath(
-                        normalizedPath, 
-                        isFile, 
-                        getPlatformSpecificExplorer(process.platform, config)
-                    );
-                    return;
-                } else if (result !== openNormalOption) {
-                    return; // キャンセル
+    /**
+     * プレビューの範囲を広げて再読み込みします。
+     * 先頭・末尾の場合は設定の行数、バイト範囲の場合は同じ長さだけ範囲を広げます。
+     * @param uri プレビューのURI
+     */
+    loadMore(uri: vscode.Uri): void {
+        const config = loadConfig();
+        const query = parsePreviewQuery(uri.query, config.previewLineCount);
+        const state = this.getState(uri, query);
+        if (query.mode === 'range') {
+            const start = query.start ?? 0;
+            const length = Math.max((query.end ?? state.size) - start, 1);
+            state.end = (state.end ?? start + length) + length;
+        } else {
+            state.lines += config.previewLineCount;
+        }
+        this.changeEmitter.fire(uri);
+    }
+
+    /**
+     * ファイルの追記の追従を切り替えます。追従中は追記された行を末尾のプレビューに追加します。
+     * @param uri プレビューのURI
+     * @returns 切り替え後に追従しているかどうか（末尾のプレビューでない場合はundefined）
+     */
+    toggleFollow(uri: vscode.Uri): boolean | undefined {
+        const query = parsePreviewQuery(uri.query, loadConfig().previewLineCount);
+        if (query.mode !== 'tail') {
+            return undefined;
+        }
+        const state = this.getState(uri, query);
+        const filePath = getPreviewFilePath(uri);
+        if (state.watcher) {
+            fsSync.unwatchFile(filePath, state.watcher);
+            state.watcher = undefined;
+            return false;
+        }
+
+        state.watcher = async current => {
+            if (current.size > state.size) {
+                // 追記された行の数だけ読み込む行数を増やし、既存の行が押し出されないようにする
+                try {
+                    const appended = await readByteRange(filePath, state.size, current.size, query.encoding);
+                    state.lines += appended.newlines;
+                } catch (error) {
+                    console.error('プレビューの追従エラー:', error);
                 }
             }
-            
-            // VS Code内でテキストファイルを開く
-            const uri = vscode.Uri.file(normalizedPath);
-            try {
-                const document = await vscode.workspace.openTextDocument(uri);
-                await vscode.window.showTextDocument(document, { preview: false, viewColumn: vscode.ViewColumn.Active });
-                return;
-            } catch (error: any) {
-                handleError(MESSAGES.TEXT_FILE_OPEN_ERROR, error);
-                return;
+            if (current.size !== state.size) {
+                this.changeEmitter.fire(uri);
             }
+        };
+        fsSync.watchFile(filePath, { interval: 1000 }, state.watcher);
+        return true;
+    }
+
+    /**
+     * 閉じられたプレビューの状態と監視を破棄します。
+     * @param uri プレビューのURI
+     */
+    release(uri: vscode.Uri): void {
+        const state = this.states.get(uri.toString());
+        if (state?.watcher) {
+            fsSync.unwatchFile(getPreviewFilePath(uri), state.watcher);
         }
+        this.states.delete(uri.toString());
+    }
+
+    dispose(): void {
+        for (const [key, state] of this.states) {
+            if (state.watcher) {
+                fsSync.unwatchFile(getPreviewFilePath(vscode.Uri.parse(key)), state.watcher);
+            }
+        }
+        this.states.clear();
+        this.changeEmitter.dispose();
+    }
+
+    private getState(uri: vscode.Uri, query: PreviewQuery): PreviewState {
+        const key = uri.toString();
+        let state = this.states.get(key);
+        if (!state) {
+            state = { lines: query.lines, end: query.end, size: 0 };
+            this.states.set(key, state);
+        }
+        return state;
     }
-    
-    // ファイルでない場合、またはテキストファイルでなかった場合は、OSのエクスプローラー/ファインダーで開く
-    await platformHandler.openPath(
-        normalizedPath, 
-        isFile, 
-        getPlatformSpecificExplorer(process.platform, config)
-    );
 }
 
+let previewProvider: LargeFilePreviewProvider | undefined;
+
 /**
- * プラットフォームに応じたカスタムエクスプローラーコマンドを取得します。
- * @param platform 現在のプラットフォーム。
- * @param config 拡張機能の設定。
- * @returns カスタムエクスプローラーコマンド。
+ * プレビューのURIから対象のファイルのパスを取得します。
+ * @param uri プレビューのURI
+ * @returns ファイルのパス
  */
-function getPlatformSpecificExplorer(platform: string, config: ExtensionConfig): string {
-    switch (platform) {
-        case 'win32':
-            return config.customExplorerWindows;
-        case 'darwin':
-            return config.customExplorerMacOS;
-        case 'linux':
-            return config.customExplorerLinux;
-        default:
-            return '';
+function getPreviewFilePath(uri: vscode.Uri): string {
+    return vscode.Uri.file(uri.path).fsPath;
+}
+
+/**
+ * 大きなテキストファイルのプレビューを開きます。
+ * @param filePath ファイルのパス
+ * @param query プレビューの指定
+ * @returns 開けた場合はtrue
+ */
+async function openLargeFilePreview(filePath: string, query: PreviewQuery): Promise<boolean> {
+    const uri = vscode.Uri.file(filePath).with({ scheme: PREVIEW_SCHEME, query: formatPreviewQuery(query) });
+    try {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const editor = await vscode.window.showTextDocument(document, { preview: false });
+        if (query.mode === 'tail') {
+            const lastLine = document.lineAt(document.lineCount - 1);
+            editor.revealRange(lastLine.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+        return true;
+    } catch (error: any) {
+        handleError(MESSAGES.PREVIEW_READ_ERROR, error);
+        return false;
+    }
+}
+
+/**
+ * プレビューの種類（先頭・末尾・バイト範囲）を選択させ、大きなテキストファイルのプレビューを開きます。
+ * @param filePath ファイルのパス
+ * @param fileSize ファイルサイズ（バイト）
+ * @param config 拡張機能の設定
+ * @param encoding TextDecoder のラベル（任意）
+ * @returns プレビューを開いた場合はtrue（キャンセル・失敗した場合はfalse）
+ */
+async function pickLargeFilePreview(
+    filePath: string,
+    fileSize: number,
+    config: ExtensionConfig,
+    encoding?: string
+): Promise<boolean> {
+    const language = config.language;
+    const lines = config.previewLineCount;
+    const items: (vscode.QuickPickItem & { mode: PreviewMode })[] = [
+        { label: `$(arrow-down) ${getLocalizedMessage(MESSAGES.PREVIEW_TAIL, language)} (${lines})`, mode: 'tail' },
+        { label: `$(arrow-up) ${getLocalizedMessage(MESSAGES.PREVIEW_HEAD, language)} (${lines})`, mode: 'head' },
+        { label: `$(symbol-number) ${getLocalizedMessage(MESSAGES.PREVIEW_RANGE, language)}`, mode: 'range' }
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: getLocalizedMessage(MESSAGES.SELECT_PREVIEW_MODE, language)
+    });
+    if (!picked) {
+        return false;
+    }
+
+    if (picked.mode !== 'range') {
+        return openLargeFilePreview(filePath, { mode: picked.mode, lines, encoding });
+    }
+
+    // バイト範囲は「開始-終了」の形式で入力（終了を省略した場合はファイルの末尾まで）
+    const rangeText = await vscode.window.showInputBox({
+        prompt: `${getLocalizedMessage(MESSAGES.PREVIEW_RANGE_PROMPT, language)} (0-${fileSize})`,
+        placeHolder: '0-1048576',
+        validateInput: value => /^\s*\d+\s*-\s*\d*\s*$/.test(value)
+            ? undefined
+            : getLocalizedMessage(MESSAGES.PREVIEW_RANGE_INVALID, language)
+    });
+    if (!rangeText) {
+        return false;
+    }
+    const [start, end] = rangeText.split('-').map(part => part.trim());
+    return openLargeFilePreview(filePath, {
+        mode: 'range',
+        lines,
+        start: Number(start),
+        end: end ? Number(end) : undefined,
+        encoding
+    });
+}
+
+/**
+ * アクティブなエディタの選択範囲・カーソル位置のパスを開きます。
+ * 複数のパスが選択されている場合は一括で処理します。
+ * @param profileName 使用するエクスプローラープロファイル名（任意）。
+ */
+async function openEditorSelection(profileName?: string): Promise<void> {
+    // 1. アクティブエディタを取得
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        handleError(MESSAGES.NO_ACTIVE_EDITOR);
+        return;
+    }
+
+    // 指定されたプロファイルが現在のプラットフォームで使用できるか確認
+    if (profileName && profileName !== SYSTEM_DEFAULT_PROFILE) {
+        const profiles = filterProfilesForPlatform(loadConfig().profiles, process.platform);
+        if (!findProfile(profiles, profileName)) {
+            handleError(`${getLocalizedMessage(MESSAGES.PROFILE_NOT_FOUND, loadConfig().language)} ${profileName}`);
+            return;
+        }
+    }
+
+    // 2. すべての選択範囲・カーソルからパスを集める
+    const pathTexts = collectSelectedPathTexts(editor);
+
+    // 3. パスの検証・オープン処理（複数の場合は一括処理）
+    if (pathTexts.length > 1) {
+        await openPathsInBatch(pathTexts, profileName);
+    } else {
+        await openPathFromText(pathTexts[0] ?? '', profileName);
+    }
+}
+
+/**
+ * 現在のプラットフォームで使用できるエクスプローラープロファイルをクイックピックで選択させます。
+ * @returns 選択されたプロファイル名（OS標準の場合は SYSTEM_DEFAULT_PROFILE、取り消した場合はundefined）
+ */
+async function pickExplorerProfile(): Promise<string | undefined> {
+    const config = loadConfig();
+    const language = config.language;
+    const defaultMark = `(${getLocalizedMessage(MESSAGES.DEFAULT_PROFILE_MARK, language)})`;
+    const profiles = filterProfilesForPlatform(config.profiles, process.platform);
+
+    const items: (vscode.QuickPickItem & { profileName: string })[] = [
+        {
+            label: `$(folder-opened) ${getLocalizedMessage(MESSAGES.SYSTEM_DEFAULT_EXPLORER, language)}`,
+            description: config.defaultProfile ? undefined : defaultMark,
+            profileName: SYSTEM_DEFAULT_PROFILE
+        },
+        ...profiles.map(profile => ({
+            label: `$(tools) ${profile.name}`,
+            description: profile.name === config.defaultProfile ? defaultMark : undefined,
+            detail: profile.command || profile.fileCommand || profile.folderCommand,
+            profileName: profile.name
+        }))
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: getLocalizedMessage(MESSAGES.SELECT_PROFILE, language)
+    });
+    return picked?.profileName;
+}
+
+/**
+ * 公開APIの resolvePath の処理を行います。
+ * @param text パスを表すテキスト
+ * @param options オプション
+ * @returns 解決結果
+ */
+async function resolvePathForApi(text: string, options?: ResolvePathOptions): Promise<ResolvedPath> {
+    const config = loadConfig();
+    const platformHandler = PLATFORM_HANDLERS[process.platform];
+    if (!platformHandler) {
+        return { kind: 'error', message: `${getLocalizedMessage(MESSAGES.UNSUPPORTED_PLATFORM, config.language)}${process.platform}` };
+    }
+
+    const resolved = await resolvePathText(text, platformHandler, config, options?.interactive ? 'pick' : 'first');
+    if (resolved.kind === 'error') {
+        return { kind: 'error', message: formatResolveError(resolved, config.language) };
+    }
+    if (resolved.kind === 'cancelled') {
+        return resolved;
+    }
+
+    const normalizedPath = platformHandler.normalizePath(resolved.path);
+    try {
+        const stats = await fs.stat(normalizedPath);
+        return {
+            kind: 'resolved',
+            path: normalizedPath,
+            exists: true,
+            isFile: stats.isFile(),
+            isDirectory: stats.isDirectory(),
+            size: stats.size,
+            position: resolved.position
+        };
+    } catch {
+        return { kind: 'resolved', path: normalizedPath, exists: false, isFile: false, isDirectory: false, position: resolved.position };
+    }
+}
+
+/**
+ * 公開APIの openPath の処理を行います。
+ * @param text パスを表すテキスト
+ * @param options 実行する動作とプロファイル
+ */
+async function openPathForApi(text: string, options?: OpenPathOptions): Promise<void> {
+    const action = options?.action ?? 'auto';
+    if (action === 'auto') {
+        await openPathFromText(text, options?.profile);
+        return;
+    }
+
+    const config = loadConfigWithProfile(options?.profile);
+    const platformHandler = getPlatformHandler(config);
+    if (!platformHandler) {
+        return;
+    }
+    const existing = await resolveExistingPath(text, platformHandler, config);
+    if (existing) {
+        await runPathAction(action, existing.path, existing.stats, platformHandler, config);
+    }
+}
+
+/**
+ * vscode://takashivscode.open-in-explorer/open?path=... 形式のリンクを処理するハンドラー。
+ * 外部のページから開かれるため、実行前に必ず確認を求めます。
+ */
+class ExternalUriHandler implements vscode.UriHandler {
+    async handleUri(uri: vscode.Uri): Promise<void> {
+        const request = parseExternalRequest(uri.path, uri.query);
+        if (!request) {
+            const language = loadConfig().language;
+            handleError(`${getLocalizedMessage(MESSAGES.EXTERNAL_LINK_INVALID, language)} ${uri.toString(true)}`);
+            return;
+        }
+
+        const config = loadConfigWithProfile(request.profile);
+        const language = config.language;
+        const platformHandler = getPlatformHandler(config);
+        if (!platformHandler) {
+            return;
+        }
+
+        // 環境変数の展開・パスのマッピングを行ってから確認し、実際に開くパスとプロファイルを表示する
+        // 確認前に入力を求めないよう、相対パスの候補が複数ある場合はエラーにする
+        const resolved = await resolvePathText(request.text, platformHandler, config, 'reject');
+        if (resolved.kind === 'error') {
+            handleError(formatResolveError(resolved, language));
+            return;
+        }
+        if (resolved.kind === 'cancelled') {
+            return;
+        }
+        let targetPath = platformHandler.normalizePath(resolved.path);
+        const details = [targetPath];
+        // 開く場合はシンボリックリンクを追跡するため、確認の前に参照先を解決して表示する
+        if (request.command === 'open') {
+            const chain = await resolveSymlinkChain(targetPath);
+            if (chain.status !== 'ok') {
+                const message = chain.status === 'dangling' ? MESSAGES.SYMLINK_DANGLING : MESSAGES.SYMLINK_LOOP;
+                handleError(`${getLocalizedMessage(message, language)} ${chain.finalPath}`);
+                return;
+            }
+            if (chain.hops.length > 0) {
+                targetPath = chain.finalPath;
+                details.push(`→ ${targetPath}`);
+            }
+        }
+        if (request.profile) {
+            const profileLabel = request.profile === SYSTEM_DEFAULT_PROFILE
+                ? getLocalizedMessage(MESSAGES.SYSTEM_DEFAULT_EXPLORER, language)
+                : request.profile;
+            details.push(`${getLocalizedMessage(MESSAGES.EXTERNAL_LINK_PROFILE, language)} ${profileLabel}`);
+        }
+
+        const openOption = getLocalizedMessage(request.command === 'reveal' ? MESSAGES.ACTION_REVEAL : MESSAGES.OPEN_PATH, language);
+        const result = await vscode.window.showWarningMessage(
+            getLocalizedMessage(MESSAGES.EXTERNAL_LINK_CONFIRM, language),
+            { modal: true, detail: details.join('\n') },
+            openOption
+        );
+        if (result !== openOption) {
+            return;
+        }
+        notifyMappingUsed(resolved, language);
+
+        // 確認したパスを開く（参照先はリンクを含まないため、再度の確認は行われない）
+        if (request.command === 'reveal') {
+            const existing = await findExistingPath(targetPath, platformHandler, config);
+            if (existing) {
+                await revealExistingPath(existing, platformHandler, config);
+            }
+        } else {
+            await processPath(targetPath, platformHandler, config, resolved.position);
+        }
     }
 }
 
@@ -805,52 +3744,161 @@ function registerConfigurationWatcher(context: vscode.ExtensionContext): void {
  * システムのエクスプローラーでファイルまたはフォルダを開くコマンドを登録します。
  * @param context VSCodeによって提供される拡張機能のコンテキスト。
  */
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<OpenInExplorerApi> {
     // 拡張機能の設定変更を監視
     registerConfigurationWatcher(context);
+
+    // 拡張機能の追加・削除で言語の拡張子が変わるため、取得済みの一覧を破棄
+    context.subscriptions.push(vscode.extensions.onDidChange(() => {
+        languageExtensions = undefined;
+    }));
     
-    let disposable = vscode.commands.registerCommand('extension.openInExplorer', async () => {
-        // 設定を読み込む
-        const config = loadConfig();
-        const language = config.language;
-        
-        // 1. アクティブエディタを取得
+    // キーバインドの引数（{ "profile": "名前" }）でプロファイルを指定可能
+    // エクスプローラービュー・タブからはUri、他の拡張機能からはパスの文字列を受け取る
+    let disposable = vscode.commands.registerCommand('extension.openInExplorer', async (arg?: OpenInExplorerArgument, uris?: vscode.Uri[]) => {
+        await openInExplorerWithArgument(arg, uris);
+    });
+
+    context.subscriptions.push(disposable);
+
+    // プロファイルを選択して開くコマンドの登録
+    const openWithCommand = vscode.commands.registerCommand('extension.openInExplorerWith', async () => {
+        const profileName = await pickExplorerProfile();
+        if (profileName) {
+            await openEditorSelection(profileName);
+        }
+    });
+
+    context.subscriptions.push(openWithCommand);
+
+    // ターミナルの選択範囲・出力されたパスから開くコマンドとリンクの登録
+    context.subscriptions.push(
+        vscode.commands.registerCommand('extension.openTerminalSelectionInExplorer', () => openTerminalSelection()),
+        vscode.window.registerTerminalLinkProvider(new PathTerminalLinkProvider())
+    );
+
+    // 既定のアプリケーションで開くコマンドの登録
+    const openDefaultCommand = vscode.commands.registerCommand('extension.openWithDefaultApp', async () => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
             handleError(MESSAGES.NO_ACTIVE_EDITOR);
             return;
         }
-
-        // 2. 選択されたテキストを取得し、検証する
-        const selection = editor.selection;
-        const rawSelectedText = editor.document.getText(selection).trim();
-        if (!rawSelectedText) {
-            handleError(MESSAGES.NO_VALID_PATH);
-            return;
+        for (const pathText of collectSelectedPathTexts(editor)) {
+            await openWithDefaultAppFromText(pathText);
         }
-        
-        // パスをサニタイズ
-        const selectedText = sanitizePath(rawSelectedText);
+    });
 
-        // 3. 適切なプラットフォームハンドラを選択
-        const platformHandler = PLATFORM_HANDLERS[process.platform];
-        if (!platformHandler) {
-            handleError(`${getLocalizedMessage(MESSAGES.UNSUPPORTED_PLATFORM, language)}${process.platform}`);
-            return;
-        }
+    context.subscriptions.push(openDefaultCommand);
+
+    // 履歴から開くコマンドの登録
+    pathHistory = new PathHistory(context);
+    const recentCommand = vscode.commands.registerCommand('extension.openRecentPath', () => showPathHistory());
 
-        // 4. パスの検証を実施
-        const validationError = platformHandler.validatePath(selectedText, config.allowRelativePaths);
-        if (validationError) {
-            handleError(validationError);
+    context.subscriptions.push(recentCommand);
+
+    // ブックマークのビューとコマンドの登録
+    bookmarkProvider = new BookmarkTreeProvider(context.globalState);
+    context.subscriptions.push(
+        bookmarkProvider,
+        vscode.window.registerTreeDataProvider('openInExplorer.bookmarks', bookmarkProvider),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('openInExplorer.bookmarks')) {
+                bookmarkProvider?.refresh();
+            }
+        }),
+        vscode.commands.registerCommand('extension.addBookmark', () => addBookmarkFromInput()),
+        vscode.commands.registerCommand('extension.bookmarksRefresh', () => bookmarkProvider?.refresh()),
+        vscode.commands.registerCommand('extension.bookmarkOpen', async (node?: BookmarkNode) => {
+            const targetPath = await getBookmarkNodePath(node);
+            if (targetPath) {
+                await openLiteralPath(targetPath);
+            }
+        }),
+        vscode.commands.registerCommand('extension.bookmarkReveal', async (node?: BookmarkNode) => {
+            const targetPath = await getBookmarkNodePath(node);
+            if (targetPath) {
+                await revealLiteralPath(targetPath);
+            }
+        }),
+        vscode.commands.registerCommand('extension.bookmarkOpenWithDefaultApp', async (node?: BookmarkNode) => {
+            const targetPath = await getBookmarkNodePath(node);
+            if (targetPath) {
+                await openLiteralPathWithDefaultApp(targetPath);
+            }
+        }),
+        vscode.commands.registerCommand('extension.bookmarkRemove', async (node?: BookmarkNode) => {
+            if (node?.kind === 'bookmark' && !node.shared) {
+                await bookmarkProvider?.updatePersonalBookmarks(bookmarks => removeBookmark(bookmarks, node.bookmark, process.platform === 'win32'));
+            }
+        })
+    );
+
+    // パスの操作を選択するコマンドの登録
+    pathActionMemory = context.globalState;
+    const pathActionsCommand = vscode.commands.registerCommand('extension.pathActions', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            handleError(MESSAGES.NO_ACTIVE_EDITOR);
             return;
         }
-
-        // 5. パスの存在確認・ファイル種別の判定・オープン処理
-        await processPath(selectedText, platformHandler, config);
+        await showPathActions(collectSelectedPathTexts(editor)[0] ?? '');
     });
 
-    context.subscriptions.push(disposable);
+    context.subscriptions.push(pathActionsCommand);
+
+    // ドキュメントリンク・ホバーから呼び出される内部コマンドの登録
+    context.subscriptions.push(
+        vscode.commands.registerCommand('extension.openDetectedPath', (text: string) => openPathFromText(text)),
+        vscode.commands.registerCommand('extension.revealDetectedPath', (text: string) => revealPathFromText(text)),
+        vscode.commands.registerCommand('extension.openDetectedPathWithDefaultApp', (text: string) => openWithDefaultAppFromText(text))
+    );
+
+    // アーカイブ内のエントリを表示する仮想ドキュメントの登録
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(ARCHIVE_SCHEME, new ArchiveEntryProvider())
+    );
+
+    // 大きなファイルのプレビューの登録
+    previewProvider = new LargeFilePreviewProvider();
+    context.subscriptions.push(
+        previewProvider,
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === PREVIEW_SCHEME) {
+                previewProvider?.release(document.uri);
+            }
+        }),
+        vscode.commands.registerCommand('extension.previewLoadMore', () => {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            if (uri?.scheme !== PREVIEW_SCHEME) {
+                handleError(MESSAGES.PREVIEW_NOT_ACTIVE);
+                return;
+            }
+            previewProvider?.loadMore(uri);
+        }),
+        vscode.commands.registerCommand('extension.previewToggleFollow', () => {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            if (uri?.scheme !== PREVIEW_SCHEME) {
+                handleError(MESSAGES.PREVIEW_NOT_ACTIVE);
+                return;
+            }
+            const following = previewProvider?.toggleFollow(uri);
+            const language = loadConfig().language;
+            if (following === undefined) {
+                vscode.window.showWarningMessage(getLocalizedMessage(MESSAGES.PREVIEW_FOLLOW_TAIL_ONLY, language));
+                return;
+            }
+            const message = following ? MESSAGES.PREVIEW_FOLLOW_STARTED : MESSAGES.PREVIEW_FOLLOW_STOPPED;
+            vscode.window.setStatusBarMessage(`$(eye) ${getLocalizedMessage(message, language)}`, 5000);
+        })
+    );
+
+    // すべてのドキュメントでパスのリンク・ホバーを提供
+    context.subscriptions.push(
+        vscode.languages.registerDocumentLinkProvider({ scheme: '*' }, new PathLinkProvider()),
+        vscode.languages.registerHoverProvider({ scheme: '*' }, new PathHoverProvider())
+    );
     
     // README表示コマンドの登録
     const showReadmeCommand = vscode.commands.registerCommand('extension.showPathOpenerReadme', async () => {
@@ -877,9 +3925,29 @@ export async function activate(context: vscode.ExtensionContext) {
     });
     
     context.subscriptions.push(showReadmeCommand);
+
+    // vscode://takashivscode.open-in-explorer/open?path=... 形式のリンクの登録
+    context.subscriptions.push(vscode.window.registerUriHandler(new ExternalUriHandler()));
+
+    // 他の拡張機能に公開するAPI
+    pathOpenedEmitter = new vscode.EventEmitter<PathOpenedEvent>();
+    context.subscriptions.push(pathOpenedEmitter);
+    return {
+        resolvePath: resolvePathForApi,
+        openPath: openPathForApi,
+        onDidOpenPath: pathOpenedEmitter.event
+    };
 }
 
 /**
  * 拡張機能が非アクティブ化される際に呼ばれるメソッドです。
  */
-export function deactivate() { }
\ No newline at end of file
+export function deactivate() {
+    outputChannel?.dispose();
+    outputChannel = undefined;
+    previewProvider = undefined;
+    pathActionMemory = undefined;
+    pathHistory = undefined;
+    bookmarkProvider = undefined;
+    pathOpenedEmitter = undefined;
+}
\ No newline at end of file
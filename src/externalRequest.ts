@@ -0,0 +1,62 @@
+/**
+ * vscode://takashivscode.open-in-explorer/... 形式のリンク（チャットやWikiのページから開く）を解析するためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * リンクで要求された操作
+ * - open: extension.openInExplorer と同じ処理で開く
+ * - reveal: 種別に関わらずOSのエクスプローラー/ファインダーで表示する
+ */
+export type ExternalCommand = 'open' | 'reveal';
+
+/**
+ * リンクの解析結果
+ */
+export interface ExternalRequest {
+    command: ExternalCommand;
+    text: string;        // パスを表すテキスト（行・列の指定がある場合は path:line:column 形式）
+    profile?: string;    // 使用するエクスプローラープロファイル名
+}
+
+const EXTERNAL_COMMANDS: ExternalCommand[] = ['open', 'reveal'];
+
+/**
+ * クエリの値を正の整数として取得します。
+ * @param value クエリの値
+ * @returns 正の整数（不正な値の場合はundefined）
+ */
+function toPositiveInteger(value: string | null): number | undefined {
+    return value !== null && /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : undefined;
+}
+
+/**
+ * リンクのパスとクエリを解析します。
+ * パスは /open または /reveal、クエリは path（必須）・line・column・profile を受け付けます。
+ * @param uriPath URIのパス部分（/open など）
+ * @param query URIのクエリ部分（path=...&line=...）
+ * @returns 解析結果（不正なリンクの場合はundefined）
+ */
+export function parseExternalRequest(uriPath: string, query: string): ExternalRequest | undefined {
+    const command = uriPath.replace(/^\/+|\/+$/g, '').toLowerCase();
+    if (!EXTERNAL_COMMANDS.includes(command as ExternalCommand)) {
+        return undefined;
+    }
+
+    const params = new URLSearchParams(query);
+    const targetPath = params.get('path')?.trim();
+    // 改行や制御文字を含むパスは、複数のパスや不正な入力とみなす
+    if (!targetPath || /[\x00-\x1F\x7F]/.test(targetPath)) {
+        return undefined;
+    }
+
+    let text = targetPath;
+    const line = toPositiveInteger(params.get('line'));
+    if (command === 'open' && line !== undefined) {
+        const column = toPositiveInteger(params.get('column'));
+        text += column !== undefined ? `:${line}:${column}` : `:${line}`;
+    }
+
+    const profile = params.get('profile')?.trim();
+    return profile ? { command: command as ExternalCommand, text, profile } : { command: command as ExternalCommand, text };
+}
@@ -0,0 +1,258 @@
+/**
+ * 大きなテキストファイルの先頭・末尾の行、またはバイト範囲を読み込むためのユーティリティ。
+ * ファイル全体を読み込まずに、必要な部分だけをチャンク単位で読み込みます。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+import * as fs from 'fs/promises';
+
+/**
+ * プレビューの種類
+ * - head: 先頭のN行
+ * - tail: 末尾のN行
+ * - range: 指定したバイト範囲
+ */
+export type PreviewMode = 'head' | 'tail' | 'range';
+
+/**
+ * プレビューの指定（仮想ドキュメントのURIのクエリに保存する）
+ */
+export interface PreviewQuery {
+    mode: PreviewMode;
+    lines: number;        // head・tail で読み込む行数
+    start?: number;       // range の開始位置（バイト）
+    end?: number;         // range の終了位置（バイト、この位置を含まない）
+    encoding?: string;    // TextDecoder のラベル（未指定の場合はUTF-8）
+}
+
+/**
+ * 読み込んだ内容
+ */
+export interface PreviewChunk {
+    text: string;    // デコードした内容
+    start: number;   // 読み込んだ範囲の開始位置（バイト）
+    end: number;     // 読み込んだ範囲の終了位置（バイト）
+    size: number;    // 読み込み時のファイルサイズ
+    newlines: number;   // 読み込んだ範囲に含まれる改行の数
+}
+
+// 1回に読み込むバイト数
+const CHUNK_SIZE = 64 * 1024;
+
+// プレビューで読み込む最大バイト数（行が極端に長いファイルでメモリを使い過ぎないため）
+export const MAX_PREVIEW_BYTES = 16 * 1024 * 1024;
+
+const LF = 0x0A;
+
+/**
+ * プレビューの指定をURIのクエリ文字列に変換します。
+ * @param query プレビューの指定
+ * @returns クエリ文字列
+ */
+export function formatPreviewQuery(query: PreviewQuery): string {
+    const params = new URLSearchParams({ mode: query.mode, lines: String(query.lines) });
+    if (query.start !== undefined) {
+        params.set('start', String(query.start));
+    }
+    if (query.end !== undefined) {
+        params.set('end', String(query.end));
+    }
+    if (query.encoding) {
+        params.set('encoding', query.encoding);
+    }
+    return params.toString();
+}
+
+/**
+ * URIのクエリ文字列からプレビューの指定を取得します。
+ * @param text クエリ文字列
+ * @param defaultLines 行数が指定されていない場合の行数
+ * @returns プレビューの指定
+ */
+export function parsePreviewQuery(text: string, defaultLines: number): PreviewQuery {
+    const params = new URLSearchParams(text);
+    const toNumber = (value: string | null) => {
+        const number = value === null ? NaN : Number(value);
+        return Number.isFinite(number) && number >= 0 ? Math.floor(number) : undefined;
+    };
+    const mode = params.get('mode');
+    return {
+        mode: mode === 'head' || mode === 'range' ? mode : 'tail',
+        lines: toNumber(params.get('lines')) || defaultLines,
+        start: toNumber(params.get('start')),
+        end: toNumber(params.get('end')),
+        encoding: params.get('encoding') || undefined
+    };
+}
+
+/**
+ * 文字コードの1文字単位のバイト数を取得します（UTF-16は2バイト、それ以外は1バイト）。
+ * @param encoding TextDecoder のラベル
+ * @returns バイト数
+ */
+function getUnitSize(encoding?: string): number {
+    return encoding?.startsWith('utf-16') ? 2 : 1;
+}
+
+/**
+ * 指定した位置の文字が改行（LF）かどうかを判定します。
+ * UTF-16では 0A 00（LE）・00 0A（BE）の単位で判定するため、下位バイトが0x0Aの文字を改行とみなしません。
+ * @param buffer バイト列
+ * @param index 位置（UTF-16の場合は文字の先頭）
+ * @param encoding TextDecoder のラベル
+ * @returns 改行の場合はtrue
+ */
+function isLineFeedAt(buffer: Uint8Array, index: number, encoding?: string): boolean {
+    switch (encoding) {
+        case 'utf-16le':
+            return buffer[index] === LF && buffer[index + 1] === 0;
+        case 'utf-16be':
+            return buffer[index] === 0 && buffer[index + 1] === LF;
+        default:
+            return buffer[index] === LF;
+    }
+}
+
+/**
+ * バイト列に含まれる改行（LF）の数を数えます。
+ * @param buffer バイト列（UTF-16の場合は文字の先頭から始まること）
+ * @param encoding TextDecoder のラベル
+ * @returns 改行の数
+ */
+export function countNewlines(buffer: Uint8Array, encoding?: string): number {
+    const unit = getUnitSize(encoding);
+    let count = 0;
+    for (let i = 0; i + unit <= buffer.length; i += unit) {
+        if (isLineFeedAt(buffer, i, encoding)) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * バイト列をデコードします。
+ * @param buffer バイト列
+ * @param encoding TextDecoder のラベル
+ * @returns デコードした文字列
+ */
+function decode(buffer: Uint8Array, encoding?: string): string {
+    return new TextDecoder(encoding || 'utf-8').decode(buffer);
+}
+
+/**
+ * UTF-16の場合は、文字の途中から読み込まないよう開始位置を偶数に揃えます。
+ * @param offset 開始位置
+ * @param encoding TextDecoder のラベル
+ * @returns 調整後の開始位置
+ */
+function alignOffset(offset: number, encoding?: string): number {
+    return encoding?.startsWith('utf-16') && offset % 2 === 1 ? offset + 1 : offset;
+}
+
+/**
+ * ファイルの先頭からN行を読み込みます。
+ * @param filePath ファイルのパス
+ * @param lines 行数
+ * @param encoding TextDecoder のラベル
+ * @returns 読み込んだ内容
+ */
+export async function readHeadLines(filePath: string, lines: number, encoding?: string): Promise<PreviewChunk> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+        const { size } = await handle.stat();
+        const unit = getUnitSize(encoding);
+        const chunks: Buffer[] = [];
+        let position = 0;
+        let remaining = lines;
+        // CHUNK_SIZE は偶数のため、UTF-16の文字がチャンクをまたぐことはない
+        while (position < size && position < MAX_PREVIEW_BYTES && remaining > 0) {
+            const length = Math.min(CHUNK_SIZE, size - position, MAX_PREVIEW_BYTES - position);
+            const { bytesRead, buffer } = await handle.read(Buffer.alloc(length), 0, length, position);
+            if (bytesRead === 0) {
+                break;
+            }
+            let chunk = buffer.subarray(0, bytesRead);
+            for (let i = 0; i + unit <= chunk.length; i += unit) {
+                if (isLineFeedAt(chunk, i, encoding) && --remaining === 0) {
+                    chunk = chunk.subarray(0, i + unit);
+                    break;
+                }
+            }
+            chunks.push(chunk);
+            position += chunk.length;
+        }
+        return { text: decode(Buffer.concat(chunks), encoding), start: 0, end: position, size, newlines: lines - remaining };
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * ファイルの末尾からN行を読み込みます。
+ * @param filePath ファイルのパス
+ * @param lines 行数
+ * @param encoding TextDecoder のラベル
+ * @returns 読み込んだ内容
+ */
+export async function readTailLines(filePath: string, lines: number, encoding?: string): Promise<PreviewChunk> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+        const { size } = await handle.stat();
+        const unit = getUnitSize(encoding);
+        const limit = alignOffset(Math.max(0, size - MAX_PREVIEW_BYTES), encoding);
+        // 最後の文字の位置（UTF-16でサイズが奇数の場合、末尾の半端なバイトは文字とみなさない）
+        const lastChar = size - (size % unit) - unit;
+        const chunks: Buffer[] = [];
+        let position = size;
+        let start = limit;
+        let remaining = lines;
+
+        search:
+        while (position > limit) {
+            let length = Math.min(CHUNK_SIZE, position - limit);
+            // UTF-16では各チャンクの開始位置を偶数に揃え、文字がチャンクをまたがないようにする
+            if ((position - length) % unit !== 0) {
+                length -= 1;
+            }
+            position -= length;
+            const { buffer } = await handle.read(Buffer.alloc(length), 0, length, position);
+            chunks.unshift(buffer);
+            for (let i = buffer.length - (buffer.length % unit) - unit; i >= 0; i -= unit) {
+                // ファイル末尾の改行は最後の行の終わりのため数えない
+                if (isLineFeedAt(buffer, i, encoding) && position + i !== lastChar && --remaining === 0) {
+                    start = position + i + unit;
+                    break search;
+                }
+            }
+        }
+
+        const content = Buffer.concat(chunks).subarray(start - position);
+        return { text: decode(content, encoding), start, end: size, size, newlines: countNewlines(content, encoding) };
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * ファイルの指定したバイト範囲を読み込みます。
+ * @param filePath ファイルのパス
+ * @param start 開始位置（バイト）
+ * @param end 終了位置（バイト、この位置を含まない。未指定の場合はファイルの末尾）
+ * @param encoding TextDecoder のラベル
+ * @returns 読み込んだ内容
+ */
+export async function readByteRange(filePath: string, start: number, end?: number, encoding?: string): Promise<PreviewChunk> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+        const { size } = await handle.stat();
+        const from = alignOffset(Math.min(start, size), encoding);
+        const to = Math.min(end ?? size, size, from + MAX_PREVIEW_BYTES);
+        const length = Math.max(0, to - from);
+        const { bytesRead, buffer } = await handle.read(Buffer.alloc(length), 0, length, from);
+        const content = buffer.subarray(0, bytesRead);
+        return { text: decode(content, encoding), start: from, end: from + bytesRead, size, newlines: countNewlines(content, encoding) };
+    } finally {
+        await handle.close();
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ * ファイルの種類ごとの動作を決める規則（openInExplorer.rules）を扱うためのユーティリティ。
+ * 規則は設定の順に評価し、最初に一致した規則の動作を使用します。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+import { FileTypeInfo } from './fileType';
+
+/**
+ * 規則に一致したときの動作
+ * - openInVSCode: VS Codeのテキストエディタで開く
+ * - openWith: 指定したカスタムエディタ（viewType）で開く
+ * - reveal: OSのエクスプローラー/ファインダーで表示する
+ * - openDefault: OSの既定のアプリケーションで開く
+ * - profile: 指定したエクスプローラープロファイルで表示する
+ */
+export type RuleAction = 'openInVSCode' | 'openWith' | 'reveal' | 'openDefault' | 'profile';
+
+/**
+ * ファイルの種類ごとの規則（指定した条件をすべて満たす場合に一致する）
+ */
+export interface FileRule {
+    name?: string;           // 表示用の名前
+    glob?: string;           // パスのglobパターン（/ を含まない場合はファイル名と照合）
+    extensions?: string[];   // 拡張子（.log または log、空文字列は拡張子なし）
+    mime?: string;           // MIMEタイプ（text/plain）、分類（text・image・archive など）、または binary
+    minSize?: number;        // 最小サイズ（バイト）
+    maxSize?: number;        // 最大サイズ（バイト）
+    action: RuleAction;      // 一致したときの動作
+    viewType?: string;       // openWith で使用するカスタムエディタのviewType
+    profile?: string;        // profile で使用するプロファイル名
+}
+
+/**
+ * 規則の照合に使用するファイルの情報
+ */
+export interface FileFacts {
+    path: string;   // ファイルのパス
+    size: number;   // ファイルサイズ（バイト）
+}
+
+const RULE_ACTIONS: RuleAction[] = ['openInVSCode', 'openWith', 'reveal', 'openDefault', 'profile'];
+
+/**
+ * 組み込みの規則（ユーザーの規則の後に評価する）
+ * 拡張子のないファイルは表示、テキストファイルはVS Codeで開き、それ以外は表示します。
+ */
+export const DEFAULT_RULES: FileRule[] = [
+    { name: 'no extension', extensions: [''], action: 'reveal' },
+    { name: 'text', mime: 'text', action: 'openInVSCode' },
+    { name: 'other', action: 'reveal' }
+];
+
+/**
+ * 設定値のうち、有効な規則のみを取り出します。
+ * @param rules 設定値
+ * @returns 動作が正しく指定された規則の配列
+ */
+export function sanitizeRules(rules: unknown): FileRule[] {
+    if (!Array.isArray(rules)) {
+        return [];
+    }
+    return rules.filter((rule): rule is FileRule =>
+        typeof rule === 'object' && rule !== null && RULE_ACTIONS.includes(rule.action)
+    );
+}
+
+/**
+ * globパターンを正規表現に変換します。
+ * *（区切り文字以外の0文字以上）、**（区切り文字を含む0文字以上）、?、[...]、{a,b} に対応します。
+ * @param glob globパターン
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue
+ * @returns 正規表現
+ */
+export function globToRegExp(glob: string, caseInsensitive: boolean = false): RegExp {
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // **/ は0個以上のフォルダに一致する
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end > i) {
+                source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            } else {
+                source += '\\[';
+            }
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
+
+/**
+ * パスのファイル名と拡張子（小文字、先頭の . なし）を取得します。
+ * @param filePath パス（/ 区切り）
+ * @returns ファイル名と拡張子
+ */
+function splitName(filePath: string): { name: string; extension: string } {
+    const name = filePath.slice(filePath.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return { name, extension: dot > 0 ? name.slice(dot + 1).toLowerCase() : '' };
+}
+
+/**
+ * ファイルの種類が規則のMIME指定に一致するかどうかを判定します。
+ * @param pattern 規則のMIME指定（text/plain、text/*、text、archive、binary）
+ * @param fileType ファイルの種類
+ * @returns 一致する場合はtrue
+ */
+function matchesMime(pattern: string, fileType: FileTypeInfo): boolean {
+    const normalized = pattern.toLowerCase();
+    const type = fileType.mimeType.toLowerCase();
+    if (normalized === 'binary') {
+        return fileType.category !== 'text';
+    }
+    if (normalized === fileType.category) {
+        return true;
+    }
+    if (normalized.endsWith('/*')) {
+        return type.startsWith(normalized.slice(0, -1));
+    }
+    if (normalized.includes('/')) {
+        return type === normalized;
+    }
+    return type.startsWith(`${normalized}/`);
+}
+
+/**
+ * MIMEタイプ以外の条件が一致するかどうかを判定します。
+ * @param rule 規則
+ * @param facts ファイルの情報
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue
+ * @returns 一致する場合はtrue
+ */
+function matchesStaticConditions(rule: FileRule, facts: FileFacts, caseInsensitive: boolean): boolean {
+    const filePath = facts.path.replace(/\\/g, '/');
+    const { name, extension } = splitName(filePath);
+
+    if (rule.glob) {
+        const target = rule.glob.includes('/') ? filePath : name;
+        if (!globToRegExp(rule.glob, caseInsensitive).test(target)) {
+            return false;
+        }
+    }
+    if (Array.isArray(rule.extensions)) {
+        const extensions = rule.extensions.map(ext => String(ext).replace(/^\./, '').toLowerCase());
+        if (!extensions.includes(extension)) {
+            return false;
+        }
+    }
+    if (typeof rule.minSize === 'number' && facts.size < rule.minSize) {
+        return false;
+    }
+    if (typeof rule.maxSize === 'number' && facts.size > rule.maxSize) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * ファイルに一致する最初の規則を探します。
+ * ファイルの種類の判定は読み込みを伴うため、MIMEを指定した規則の評価時に一度だけ行います。
+ *
+ * @param rules 規則（評価順）
+ * @param facts ファイルの情報
+ * @param getFileType ファイルの種類を判定する関数
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 一致した規則（一致しない場合はundefined）
+ */
+export async function findMatchingRule(
+    rules: FileRule[],
+    facts: FileFacts,
+    getFileType: () => Promise<FileTypeInfo>,
+    caseInsensitive: boolean = false
+): Promise<FileRule | undefined> {
+    let fileType: FileTypeInfo | undefined;
+    for (const rule of rules) {
+        if (!matchesStaticConditions(rule, facts, caseInsensitive)) {
+            continue;
+        }
+        if (rule.mime) {
+            fileType ??= await getFileType();
+            if (!matchesMime(rule.mime, fileType)) {
+                continue;
+            }
+        }
+        return rule;
+    }
+    return undefined;
+}
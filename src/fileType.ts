@@ -0,0 +1,256 @@
+/**
+ * ファイルの先頭のバイト列（シグネチャ）と拡張子からファイルの種類を判定するためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+import { DetectedEncoding, detectEncoding } from './encodingDetection';
+
+/**
+ * ファイルの分類
+ */
+export type FileCategory =
+    | 'text'
+    | 'document'
+    | 'image'
+    | 'audio'
+    | 'video'
+    | 'archive'
+    | 'executable'
+    | 'database'
+    | 'binary';
+
+/**
+ * ファイルの種類の判定結果
+ */
+export interface FileTypeInfo {
+    category: FileCategory;   // 分類
+    mimeType: string;         // MIMEタイプ
+    description: string;      // 表示用の説明（例: PNG image）
+    source: 'signature' | 'extension' | 'content';   // 判定の根拠
+    encoding?: DetectedEncoding;   // テキストの場合は判定した文字コード
+}
+
+/**
+ * 拡張子による判定に使用する一覧（拡張子は先頭の . の有無を問わない）
+ */
+export interface ExtensionLists {
+    textExtensions: Iterable<string>;     // テキストとして扱う拡張子
+    binaryExtensions: Iterable<string>;   // バイナリとして扱う拡張子
+}
+
+/**
+ * シグネチャ（指定した位置のバイト列がすべて一致する場合に該当）
+ */
+interface FileSignature {
+    parts: [number, number[] | string][];   // [位置, バイト列または文字列]
+    category: FileCategory;
+    mimeType: string;
+    description: string;
+    weak?: boolean;   // テキストの先頭と偶然一致しうる短いシグネチャ（テキストの拡張子の場合は使用しない）
+}
+
+/**
+ * シグネチャの一覧（より具体的なものを先に記述する）
+ */
+export const FILE_SIGNATURES: FileSignature[] = [
+    // 文書
+    { parts: [[0, '%PDF-']], category: 'document', mimeType: 'application/pdf', description: 'PDF document' },
+    { parts: [[0, [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]]], category: 'document', mimeType: 'application/x-ole-storage', description: 'Microsoft Office 97-2003 document' },
+    // 画像
+    { parts: [[0, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]]], category: 'image', mimeType: 'image/png', description: 'PNG image' },
+    { parts: [[0, [0xFF, 0xD8, 0xFF]]], category: 'image', mimeType: 'image/jpeg', description: 'JPEG image' },
+    { parts: [[0, 'GIF87a']], category: 'image', mimeType: 'image/gif', description: 'GIF image' },
+    { parts: [[0, 'GIF89a']], category: 'image', mimeType: 'image/gif', description: 'GIF image' },
+    { parts: [[0, 'RIFF'], [8, 'WEBP']], category: 'image', mimeType: 'image/webp', description: 'WebP image' },
+    { parts: [[0, [0x49, 0x49, 0x2A, 0x00]]], category: 'image', mimeType: 'image/tiff', description: 'TIFF image' },
+    { parts: [[0, [0x4D, 0x4D, 0x00, 0x2A]]], category: 'image', mimeType: 'image/tiff', description: 'TIFF image' },
+    { parts: [[0, [0x00, 0x00, 0x01, 0x00]]], category: 'image', mimeType: 'image/vnd.microsoft.icon', description: 'ICO image' },
+    // 音声・動画
+    { parts: [[0, 'RIFF'], [8, 'WAVE']], category: 'audio', mimeType: 'audio/wav', description: 'WAV audio' },
+    { parts: [[0, 'RIFF'], [8, 'AVI ']], category: 'video', mimeType: 'video/x-msvideo', description: 'AVI video' },
+    { parts: [[0, 'ID3']], category: 'audio', mimeType: 'audio/mpeg', description: 'MP3 audio', weak: true },
+    { parts: [[0, 'fLaC']], category: 'audio', mimeType: 'audio/flac', description: 'FLAC audio' },
+    { parts: [[0, 'OggS']], category: 'audio', mimeType: 'audio/ogg', description: 'Ogg media' },
+    { parts: [[4, 'ftyp']], category: 'video', mimeType: 'video/mp4', description: 'MP4 / QuickTime video' },
+    { parts: [[0, [0x1A, 0x45, 0xDF, 0xA3]]], category: 'video', mimeType: 'video/x-matroska', description: 'Matroska / WebM video' },
+    // アーカイブ
+    { parts: [[0, [0x50, 0x4B, 0x03, 0x04]]], category: 'archive', mimeType: 'application/zip', description: 'ZIP archive' },
+    { parts: [[0, [0x50, 0x4B, 0x05, 0x06]]], category: 'archive', mimeType: 'application/zip', description: 'ZIP archive (empty)' },
+    { parts: [[0, [0x1F, 0x8B]]], category: 'archive', mimeType: 'application/gzip', description: 'gzip compressed data' },
+    { parts: [[0, [0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00]]], category: 'archive', mimeType: 'application/x-xz', description: 'xz compressed data' },
+    { parts: [[0, [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C]]], category: 'archive', mimeType: 'application/x-7z-compressed', description: '7-Zip archive' },
+    { parts: [[0, 'BZh']], category: 'archive', mimeType: 'application/x-bzip2', description: 'bzip2 compressed data', weak: true },
+    { parts: [[0, [0x28, 0xB5, 0x2F, 0xFD]]], category: 'archive', mimeType: 'application/zstd', description: 'Zstandard compressed data' },
+    { parts: [[0, 'Rar!\x1A\x07']], category: 'archive', mimeType: 'application/vnd.rar', description: 'RAR archive' },
+    { parts: [[257, 'ustar']], category: 'archive', mimeType: 'application/x-tar', description: 'tar archive' },
+    // 実行ファイル
+    { parts: [[0, [0x7F, 0x45, 0x4C, 0x46]]], category: 'executable', mimeType: 'application/x-elf', description: 'ELF executable' },
+    { parts: [[0, 'MZ']], category: 'executable', mimeType: 'application/vnd.microsoft.portable-executable', description: 'Windows PE executable', weak: true },
+    { parts: [[0, [0xFE, 0xED, 0xFA, 0xCE]]], category: 'executable', mimeType: 'application/x-mach-binary', description: 'Mach-O executable' },
+    { parts: [[0, [0xFE, 0xED, 0xFA, 0xCF]]], category: 'executable', mimeType: 'application/x-mach-binary', description: 'Mach-O executable' },
+    { parts: [[0, [0xCE, 0xFA, 0xED, 0xFE]]], category: 'executable', mimeType: 'application/x-mach-binary', description: 'Mach-O executable' },
+    { parts: [[0, [0xCF, 0xFA, 0xED, 0xFE]]], category: 'executable', mimeType: 'application/x-mach-binary', description: 'Mach-O executable' },
+    { parts: [[0, [0xCA, 0xFE, 0xBA, 0xBE]]], category: 'executable', mimeType: 'application/x-mach-binary', description: 'Mach-O universal binary / Java class' },
+    { parts: [[0, [0x00, 0x61, 0x73, 0x6D]]], category: 'executable', mimeType: 'application/wasm', description: 'WebAssembly module' },
+    // データベース
+    { parts: [[0, 'SQLite format 3\0']], category: 'database', mimeType: 'application/vnd.sqlite3', description: 'SQLite database' }
+];
+
+// ZIP形式のOffice文書（OOXML）を判別するためのフォルダ名
+const OOXML_PREFIXES: [string, string, string][] = [
+    ['word/', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'Word document'],
+    ['xl/', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'Excel workbook'],
+    ['ppt/', 'application/vnd.openxmlformats-officedocument.presentationml.presentation', 'PowerPoint presentation']
+];
+
+/**
+ * 指定した位置のバイト列が一致するかどうかを判定します。
+ * @param buffer ファイルの先頭のバイト列
+ * @param offset 位置
+ * @param expected 期待するバイト列または文字列（latin1）
+ * @returns 一致する場合はtrue
+ */
+function matchesAt(buffer: Uint8Array, offset: number, expected: number[] | string): boolean {
+    const bytes = typeof expected === 'string' ? Array.from(expected, c => c.charCodeAt(0)) : expected;
+    if (buffer.length < offset + bytes.length) {
+        return false;
+    }
+    return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * ZIPのエントリ名からOffice文書（docx・xlsx・pptx）かどうかを判別します。
+ * @param buffer ファイルの先頭のバイト列
+ * @returns Office文書の場合はその判定結果
+ */
+function refineZip(buffer: Uint8Array): FileTypeInfo | undefined {
+    const content = Buffer.from(buffer).toString('latin1');
+    for (const [prefix, mimeType, description] of OOXML_PREFIXES) {
+        if (content.includes(prefix)) {
+            return { category: 'document', mimeType, description, source: 'signature' };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * ファイルの先頭のバイト列からシグネチャに一致する種類を探します。
+ * @param buffer ファイルの先頭のバイト列
+ * @param skipWeak 短いシグネチャを使用しない場合はtrue
+ * @returns 判定結果（一致しない場合はundefined）
+ */
+export function detectSignature(buffer: Uint8Array, skipWeak: boolean = false): FileTypeInfo | undefined {
+    const signature = FILE_SIGNATURES.find(sig =>
+        !(skipWeak && sig.weak) && sig.parts.every(([offset, bytes]) => matchesAt(buffer, offset, bytes))
+    );
+    if (!signature) {
+        return undefined;
+    }
+    if (signature.mimeType === 'application/zip') {
+        const office = refineZip(buffer);
+        if (office) {
+            return office;
+        }
+    }
+    return {
+        category: signature.category,
+        mimeType: signature.mimeType,
+        description: signature.description,
+        source: 'signature'
+    };
+}
+
+/**
+ * ファイルの内容がテキストかどうかを判定します。
+ * BOM、NULバイト、制御文字の割合、ASCII範囲外の文字の割合を確認します。
+ * @param buffer ファイルの先頭のバイト列
+ * @returns テキストと判断できる場合はtrue
+ */
+export function isTextContent(buffer: Uint8Array): boolean {
+    const length = buffer.length;
+    if (length === 0) {
+        return true;
+    }
+
+    // UTF-8/16/32 BOMチェック
+    if (matchesAt(buffer, 0, [0xEF, 0xBB, 0xBF]) || matchesAt(buffer, 0, [0xFE, 0xFF])) {
+        return true;
+    }
+    // UTF-16 LE BOM: FF FE（UTF-32 LE BOMと区別）
+    if (matchesAt(buffer, 0, [0xFF, 0xFE]) && !matchesAt(buffer, 2, [0x00, 0x00])) {
+        return true;
+    }
+    if (matchesAt(buffer, 0, [0x00, 0x00, 0xFE, 0xFF])) {
+        return true;
+    }
+
+    // null バイトが見つかった場合はバイナリファイルと見なす
+    if (buffer.includes(0)) {
+        return false;
+    }
+
+    // タブ(9)、LF(10)、CR(13)以外のコントロール文字が20%以上ならバイナリとみなす
+    let controlChars = 0;
+    let nonAsciiChars = 0;
+    for (const byte of buffer) {
+        if ((byte < 32 && byte !== 9 && byte !== 10 && byte !== 13) || byte === 127) {
+            controlChars++;
+        } else if (byte > 127) {
+            nonAsciiChars++;
+        }
+    }
+    if (controlChars / length > 0.2) {
+        return false;
+    }
+
+    // 非ASCIIが90%以上ならバイナリの可能性が高い
+    return nonAsciiChars / length <= 0.9;
+}
+
+/**
+ * 拡張子の一覧に含まれるかどうかを判定します。
+ * @param extensions 拡張子の一覧
+ * @param extension 判定する拡張子（小文字、先頭の . なし）
+ * @returns 含まれる場合はtrue
+ */
+function includesExtension(extensions: Iterable<string>, extension: string): boolean {
+    for (const ext of extensions) {
+        if (ext.replace(/^\./, '').toLowerCase() === extension) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * ファイルの種類を判定します。
+ * シグネチャ、拡張子の一覧、内容の順に判定するため、拡張子が .log でも
+ * gzipで圧縮されたファイルはアーカイブとして判定されます。
+ * テキストの場合は文字コードも判定します。
+ *
+ * @param buffer ファイルの先頭のバイト列
+ * @param extension 拡張子（先頭の . の有無を問わない）
+ * @param lists 拡張子による判定に使用する一覧
+ * @returns 判定結果
+ */
+export function detectFileType(buffer: Uint8Array, extension: string, lists: ExtensionLists): FileTypeInfo {
+    const ext = extension.replace(/^\./, '').toLowerCase();
+    const isTextExtension = ext !== '' && includesExtension(lists.textExtensions, ext);
+    const signature = detectSignature(buffer, isTextExtension);
+    if (signature) {
+        return signature;
+    }
+
+    const encoding = detectEncoding(buffer);
+    if (isTextExtension) {
+        return { category: 'text', mimeType: 'text/plain', description: 'Text', source: 'extension', encoding };
+    }
+    if (ext && includesExtension(lists.binaryExtensions, ext)) {
+        return { category: 'binary', mimeType: 'application/octet-stream', description: 'Binary', source: 'extension' };
+    }
+
+    // 文字コードを判定できた場合は、非ASCIIの割合に関わらずテキストとして扱う（Shift_JISなど）
+    return encoding || isTextContent(buffer)
+        ? { category: 'text', mimeType: 'text/plain', description: 'Text', source: 'content', encoding }
+        : { category: 'binary', mimeType: 'application/octet-stream', description: 'Binary', source: 'content' };
+}
@@ -0,0 +1,159 @@
+/**
+ * Linuxのファイルマネージャーでファイルを選択した状態で表示するためのユーティリティ。
+ * D-Bus（org.freedesktop.FileManager1.ShowItems）を優先し、使用できない場合は
+ * インストールされているファイルマネージャーの選択オプションを使用します。
+ * コマンドの実行は呼び出し元から渡すため、偽の実行関数を使って単体でテスト可能です。
+ */
+
+import { CommandLine } from './commandTemplate';
+
+/**
+ * コマンドの実行結果
+ */
+export interface CommandRunResult {
+    success: boolean;   // 正常終了したかどうか
+    output?: string;    // 標準出力
+}
+
+/**
+ * コマンドを実行し、終了を待つ関数
+ */
+export type CommandRunner = (command: string, args: string[]) => Promise<CommandRunResult>;
+
+/**
+ * ファイルを選択して表示できるファイルマネージャー
+ */
+export interface FileManager {
+    command: string;        // 実行ファイル名
+    desktopIds: string[];   // デスクトップエントリのID（xdg-mime の既定値との照合に使用）
+    selectArgs: string[];   // ファイルを選択するためにパスの前に付ける引数
+}
+
+/**
+ * ファイルを表示した結果
+ */
+export type RevealResult =
+    | { kind: 'dbus' }                                  // D-Bus経由で表示した
+    | { kind: 'fileManager'; commandLine: CommandLine } // 起動するファイルマネージャーのコマンド
+    | { kind: 'none' };                                 // 選択して表示する方法がない
+
+// 対応するファイルマネージャー（既定のファイルマネージャーが判定できない場合はこの順で探す）
+export const FILE_MANAGERS: FileManager[] = [
+    { command: 'nautilus', desktopIds: ['org.gnome.Nautilus.desktop', 'nautilus.desktop'], selectArgs: ['--select'] },
+    { command: 'dolphin', desktopIds: ['org.kde.dolphin.desktop', 'dolphin.desktop'], selectArgs: ['--select'] },
+    { command: 'nemo', desktopIds: ['nemo.desktop'], selectArgs: [] },
+    { command: 'caja', desktopIds: ['caja-folder-handler.desktop', 'caja.desktop'], selectArgs: ['--select'] },
+    { command: 'thunar', desktopIds: ['thunar.desktop', 'Thunar.desktop', 'thunar-folder-handler.desktop'], selectArgs: [] }
+];
+
+const FILE_MANAGER_BUS_NAME = 'org.freedesktop.FileManager1';
+const FILE_MANAGER_OBJECT_PATH = '/org/freedesktop/FileManager1';
+const SHOW_ITEMS_METHOD = 'org.freedesktop.FileManager1.ShowItems';
+
+/**
+ * 絶対パスを file:// 形式のURIに変換します。
+ * 各パス要素をエンコードするため、dbus-send の配列の区切り文字（,）もURIに含まれません。
+ * encodeURIComponent がエンコードしない ' なども、gdbus のGVariant文字列（'...'）を壊さないようエンコードします。
+ * @param filePath 絶対パス
+ * @returns file:// 形式のURI
+ */
+export function toFileUri(filePath: string): string {
+    const encoded = filePath
+        .split('/')
+        .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+        .join('/');
+    return `file://${encoded}`;
+}
+
+/**
+ * ShowItems を呼び出すコマンドを、試す順に作成します（dbus-send、gdbus）。
+ * @param filePath 表示するファイルの絶対パス
+ * @returns コマンドの配列
+ */
+export function buildShowItemsCommands(filePath: string): CommandLine[] {
+    const uri = toFileUri(filePath);
+    return [
+        {
+            command: 'dbus-send',
+            args: [
+                '--session',
+                '--print-reply',
+                `--dest=${FILE_MANAGER_BUS_NAME}`,
+                '--type=method_call',
+                FILE_MANAGER_OBJECT_PATH,
+                SHOW_ITEMS_METHOD,
+                `array:string:${uri}`,
+                'string:'
+            ]
+        },
+        {
+            command: 'gdbus',
+            args: [
+                'call',
+                '--session',
+                '--dest', FILE_MANAGER_BUS_NAME,
+                '--object-path', FILE_MANAGER_OBJECT_PATH,
+                '--method', SHOW_ITEMS_METHOD,
+                `['${uri}']`,
+                ''
+            ]
+        }
+    ];
+}
+
+/**
+ * ファイルマネージャーでファイルを選択して開くコマンドを作成します。
+ * @param manager ファイルマネージャー
+ * @param filePath 表示するファイルのパス
+ * @returns コマンド
+ */
+export function buildFileManagerCommand(manager: FileManager, filePath: string): CommandLine {
+    return { command: manager.command, args: [...manager.selectArgs, filePath] };
+}
+
+/**
+ * 使用するファイルマネージャーを判定します。
+ * xdg-mime で既定のファイルマネージャーを確認し、対応していない場合は
+ * インストールされているファイルマネージャーを順に探します。
+ * @param run コマンドを実行する関数
+ * @returns ファイルマネージャー（見つからない場合はundefined）
+ */
+export async function detectFileManager(run: CommandRunner): Promise<FileManager | undefined> {
+    const query = await run('xdg-mime', ['query', 'default', 'inode/directory']);
+    const desktopId = query.success ? (query.output ?? '').trim() : '';
+    const preferred = FILE_MANAGERS.find(manager => manager.desktopIds.includes(desktopId));
+    if (preferred) {
+        return preferred;
+    }
+
+    for (const manager of FILE_MANAGERS) {
+        const found = await run('which', [manager.command]);
+        if (found.success) {
+            return manager;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * ファイルをファイルマネージャーで選択した状態で表示します。
+ * D-Bus の呼び出しに成功した場合はそのまま終了し、失敗した場合は
+ * 起動するファイルマネージャーのコマンドを返します（起動は呼び出し元で切り離して行う）。
+ * @param filePath 表示するファイルの絶対パス
+ * @param run コマンドを実行する関数
+ * @returns 表示した結果
+ */
+export async function revealFileOnLinux(filePath: string, run: CommandRunner): Promise<RevealResult> {
+    for (const commandLine of buildShowItemsCommands(filePath)) {
+        const result = await run(commandLine.command, commandLine.args);
+        if (result.success) {
+            return { kind: 'dbus' };
+        }
+    }
+
+    const manager = await detectFileManager(run);
+    if (manager) {
+        return { kind: 'fileManager', commandLine: buildFileManagerCommand(manager, filePath) };
+    }
+    return { kind: 'none' };
+}
@@ -0,0 +1,85 @@
+/**
+ * 解決したパスに対して実行できる操作（Path Actions）の一覧と並び順を扱うためのユーティリティ。
+ * 最後に使用した操作はファイルの種類（拡張子、またはフォルダ）ごとに記憶し、一覧の先頭に表示します。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * パスに対する操作
+ * - reveal: OSのエクスプローラー/ファインダーで表示する
+ * - openInVSCode: VS Codeで開く（ファイルのみ）
+ * - revealInSideBar: VS Codeのエクスプローラービューで表示する
+ * - openInNewWindow: フォルダを新しいウィンドウで開く
+ * - addToWorkspace: フォルダをワークスペースに追加する
+ * - openTerminal: フォルダで統合ターミナルを開く
+ * - copyAbsolute・copyRelative・copyUri: 絶対パス・相対パス・URIをコピーする
+ * - openDefault: OSの既定のアプリケーションで開く
+ */
+export type PathActionId =
+    | 'reveal'
+    | 'openInVSCode'
+    | 'revealInSideBar'
+    | 'openInNewWindow'
+    | 'addToWorkspace'
+    | 'openTerminal'
+    | 'copyAbsolute'
+    | 'copyRelative'
+    | 'copyUri'
+    | 'openDefault';
+
+// 既定の表示順
+export const PATH_ACTIONS: PathActionId[] = [
+    'reveal',
+    'openInVSCode',
+    'revealInSideBar',
+    'openInNewWindow',
+    'addToWorkspace',
+    'openTerminal',
+    'copyAbsolute',
+    'copyRelative',
+    'copyUri',
+    'openDefault'
+];
+
+// フォルダを記憶する際のキー
+const FOLDER_KEY = '<folder>';
+// 拡張子のないファイルを記憶する際のキー
+const NO_EXTENSION_KEY = '<none>';
+
+/**
+ * パスの種類で使用できる操作を取得します。
+ * @param isFile ファイルの場合はtrue（フォルダの場合はfalse）
+ * @returns 使用できる操作（既定の表示順）
+ */
+export function getAvailableActions(isFile: boolean): PathActionId[] {
+    return PATH_ACTIONS.filter(action => isFile || action !== 'openInVSCode');
+}
+
+/**
+ * 最後に使用した操作を記憶する際のキー（ファイルの種類）を取得します。
+ * @param filePath パス
+ * @param isFile ファイルの場合はtrue（フォルダの場合はfalse）
+ * @returns 小文字の拡張子（.log など）、拡張子がない場合は <none>、フォルダの場合は <folder>
+ */
+export function getActionMemoryKey(filePath: string, isFile: boolean): string {
+    if (!isFile) {
+        return FOLDER_KEY;
+    }
+    const name = filePath.slice(Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')) + 1);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot).toLowerCase() : NO_EXTENSION_KEY;
+}
+
+/**
+ * 最後に使用した操作を先頭に移動します。
+ * @param actions 操作の一覧
+ * @param lastUsed 最後に使用した操作（記憶していない場合はundefined）
+ * @returns 並べ替えた操作の一覧
+ */
+export function orderActions(actions: PathActionId[], lastUsed?: string): PathActionId[] {
+    const index = actions.findIndex(action => action === lastUsed);
+    if (index <= 0) {
+        return [...actions];
+    }
+    return [actions[index], ...actions.slice(0, index), ...actions.slice(index + 1)];
+}
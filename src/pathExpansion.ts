@@ -0,0 +1,125 @@
+/**
+ * パス中の環境変数・チルダ・VS Code変数を展開するためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * 変数の展開に使用する情報
+ */
+export interface ExpansionContext {
+    env: { [name: string]: string | undefined };    // 環境変数
+    homeDir: string;                                 // ユーザーのホームフォルダ
+    platform: string;                                // 実行中のプラットフォーム（process.platform）
+    workspaceFolder?: string;                        // ${workspaceFolder} に対応するフォルダ
+    workspaceFolders?: { name: string; path: string }[];  // ${workspaceFolder:name} の候補
+}
+
+/**
+ * 変数を展開した結果
+ */
+export type ExpansionResult =
+    | { path: string }                    // 展開後のパス
+    | { undefinedVariable: string };      // 定義されていない変数の名前
+
+// ${...} / $VAR / %VAR% のいずれかに一致する
+const VARIABLE_REGEX = /\$\{([^}]+)\}|\$([A-Za-z_][A-Za-z0-9_]*)|%([A-Za-z_][A-Za-z0-9_()]*)%/g;
+
+// 環境変数名として有効な形式
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_()]*$/;
+
+// 先頭のチルダ（~ / ~/ / ~\）
+const TILDE_REGEX = /^~(?=$|[\\/])/;
+
+/**
+ * 環境変数の値を取得します。Windowsでは大文字と小文字を区別しません。
+ * @param name 環境変数名
+ * @param context 展開に使用する情報
+ * @returns 環境変数の値（定義されていない場合はundefined）
+ */
+function lookupEnv(name: string, context: ExpansionContext): string | undefined {
+    if (context.platform !== 'win32') {
+        return context.env[name];
+    }
+    const key = Object.keys(context.env).find(k => k.toLowerCase() === name.toLowerCase());
+    return key !== undefined ? context.env[key] : undefined;
+}
+
+/**
+ * ${...} 形式の変数を解決します。
+ * @param expression 波括弧の内側
+ * @param context 展開に使用する情報
+ * @returns 変数の値（解決できない場合はundefined）
+ */
+function resolveBracedVariable(expression: string, context: ExpansionContext): string | undefined {
+    const separator = expression.indexOf(':');
+    const name = separator === -1 ? expression : expression.slice(0, separator);
+    const argument = separator === -1 ? undefined : expression.slice(separator + 1);
+
+    switch (name) {
+        case 'env':
+            return argument ? lookupEnv(argument, context) : undefined;
+        case 'workspaceFolder':
+            if (argument === undefined) {
+                return context.workspaceFolder;
+            }
+            return context.workspaceFolders?.find(folder => folder.name === argument)?.path;
+        case 'userHome':
+            return argument === undefined ? context.homeDir : undefined;
+        default:
+            // POSIX形式の ${VAR}
+            return argument === undefined && VARIABLE_NAME_REGEX.test(name)
+                ? lookupEnv(name, context)
+                : undefined;
+    }
+}
+
+/**
+ * パス中の変数を展開します。
+ * 対応する形式は、Windowsの %VAR%、POSIXの $VAR / ${VAR}、VS Code形式の
+ * ${env:VAR} / ${workspaceFolder} / ${workspaceFolder:name} / ${userHome}、および先頭の ~ です。
+ * 展開後の値に含まれる変数は再度展開しません。
+ *
+ * Windowsでは C:\$Recycle.Bin のように $ を含むパスがあるため、
+ * 波括弧のない $VAR が定義されていない場合はそのまま残します。
+ *
+ * @param text パスを表すテキスト
+ * @param context 展開に使用する情報
+ * @returns 展開結果（定義されていない変数がある場合はその名前）
+ */
+export function expandPathVariables(text: string, context: ExpansionContext): ExpansionResult {
+    let undefinedVariable: string | undefined;
+
+    // 先頭のチルダはホームフォルダに置き換える
+    const hasTilde = TILDE_REGEX.test(text);
+    const body = hasTilde ? text.slice(1) : text;
+
+    const expanded = body.replace(VARIABLE_REGEX, (match, braced?: string, dollar?: string, percent?: string) => {
+        if (undefinedVariable !== undefined) {
+            return match;
+        }
+
+        let value: string | undefined;
+        if (braced !== undefined) {
+            value = resolveBracedVariable(braced, context);
+        } else if (dollar !== undefined) {
+            value = lookupEnv(dollar, context);
+            if (value === undefined && context.platform === 'win32') {
+                return match;
+            }
+        } else if (percent !== undefined) {
+            value = lookupEnv(percent, context);
+        }
+
+        if (value === undefined) {
+            undefinedVariable = match;
+            return match;
+        }
+        return value;
+    });
+
+    if (undefinedVariable !== undefined) {
+        return { undefinedVariable };
+    }
+
+    return { path: hasTilde ? context.homeDir + expanded : expanded };
+}
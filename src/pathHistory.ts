@@ -0,0 +1,96 @@
+/**
+ * 開いたパスの履歴を扱うためのユーティリティ。
+ * 履歴は新しい順に保持し、ピン留めした項目は件数の上限や消去の対象外とします。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * 履歴の項目
+ */
+export interface HistoryEntry {
+    input: string;       // 処理したパス（変数の展開・正規化後、シンボリックリンクの解決前）
+    target: string;      // 実際に開いたパス
+    action: string;      // 実行した動作（reveal・openInVSCode など）
+    timestamp: number;   // 開いた日時（ミリ秒）
+    pinned?: boolean;    // ピン留めされている場合はtrue
+}
+
+/**
+ * 保存されていた値のうち、有効な履歴の項目のみを取り出します。
+ * @param value 保存されていた値
+ * @returns 履歴の項目の配列
+ */
+export function sanitizeHistory(value: unknown): HistoryEntry[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.filter((entry): entry is HistoryEntry =>
+        typeof entry === 'object' && entry !== null &&
+        typeof entry.input === 'string' && typeof entry.target === 'string' &&
+        typeof entry.action === 'string' && typeof entry.timestamp === 'number'
+    );
+}
+
+/**
+ * 2つのパスが同じかどうかを判定します。
+ * @param a パス
+ * @param b パス
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 同じ場合はtrue
+ */
+function isSamePath(a: string, b: string, caseInsensitive: boolean): boolean {
+    return caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * 履歴の並び順（ピン留めした項目を先頭に、それぞれ新しい順）に並べ替えます。
+ * @param entries 履歴
+ * @returns 並べ替えた履歴
+ */
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+    return [...entries].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+}
+
+/**
+ * 履歴に項目を追加します。
+ * 実際に開いたパスが同じ項目がある場合は置き換え（ピン留めは引き継ぐ）、ピン留めしていない項目が上限を超えた分は古い順に削除します。
+ * @param entries 履歴
+ * @param entry 追加する項目
+ * @param maxSize ピン留めしていない項目の上限
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 追加後の履歴
+ */
+export function addHistoryEntry(
+    entries: HistoryEntry[],
+    entry: HistoryEntry,
+    maxSize: number,
+    caseInsensitive: boolean = false
+): HistoryEntry[] {
+    // 履歴から開く際は実際に開いたパスを使用するため、そのパスで重複を判定する
+    const existing = entries.find(item => isSamePath(item.target, entry.target, caseInsensitive));
+    const added: HistoryEntry = existing?.pinned ? { ...entry, pinned: true } : entry;
+    const others = entries.filter(item => item !== existing);
+
+    let unpinned = added.pinned ? 0 : 1;
+    const kept = sortHistory(others).filter(item => item.pinned || ++unpinned <= maxSize);
+    return sortHistory(added.pinned || maxSize > 0 ? [added, ...kept] : kept);
+}
+
+/**
+ * 項目のピン留めを切り替えます。
+ * @param entries 履歴
+ * @param target 対象の項目の実際に開いたパス
+ * @returns 切り替え後の履歴
+ */
+export function togglePinned(entries: HistoryEntry[], target: string): HistoryEntry[] {
+    return sortHistory(entries.map(entry => entry.target === target ? { ...entry, pinned: !entry.pinned } : entry));
+}
+
+/**
+ * 履歴を消去します。ピン留めした項目は残します。
+ * @param entries 履歴
+ * @returns 消去後の履歴
+ */
+export function clearHistory(entries: HistoryEntry[]): HistoryEntry[] {
+    return entries.filter(entry => entry.pinned);
+}
@@ -0,0 +1,129 @@
+/**
+ * ビルドエージェントやコンテナ内のパスをローカルのパスに書き換えるためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * パスの書き換え規則（openInExplorer.pathMappings の各要素）
+ */
+export interface PathMapping {
+    name?: string;              // 表示用の名前
+    from: string;               // 書き換え元のプレフィックス（regex が true の場合は正規表現）
+    to: string;                 // 書き換え先（正規表現の場合は $1 などでグループを参照可能）
+    regex?: boolean;            // from を正規表現として扱うかどうか
+    workspaceFolder?: string;   // 適用するワークスペースフォルダ名（未指定の場合は常に適用）
+}
+
+/**
+ * 書き換え規則を適用した候補
+ */
+export interface MappedCandidate {
+    path: string;            // 書き換え後のパス
+    mapping: PathMapping;    // 適用した規則
+}
+
+/**
+ * 区切り文字を / に揃えます。
+ * @param text パス
+ * @returns 区切り文字を揃えたパス
+ */
+function toSlashes(text: string): string {
+    return text.replace(/\\/g, '/');
+}
+
+/**
+ * 書き換え規則の表示用の名前を取得します。
+ * @param mapping 書き換え規則
+ * @returns 表示用の名前
+ */
+export function getMappingLabel(mapping: PathMapping): string {
+    return mapping.name || `${mapping.from} → ${mapping.to}`;
+}
+
+/**
+ * プレフィックスの書き換え規則を適用します。
+ * プレフィックスはパス要素の境界でのみ一致します（/app は /apple に一致しない）。
+ * @param text 書き換えるパス
+ * @param mapping 書き換え規則
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue
+ * @returns 書き換え後のパス（一致しない場合はnull）
+ */
+function applyPrefixMapping(text: string, mapping: PathMapping, caseInsensitive: boolean): string | null {
+    const from = toSlashes(mapping.from);
+    const target = toSlashes(text);
+    if (!from) {
+        return null;
+    }
+
+    const head = target.slice(0, from.length);
+    const matches = caseInsensitive ? head.toLowerCase() === from.toLowerCase() : head === from;
+    if (!matches) {
+        return null;
+    }
+
+    const rest = text.slice(from.length);
+    if (!from.endsWith('/') && rest.length > 0 && !/^[\\/]/.test(rest)) {
+        return null;
+    }
+
+    // 書き換え先とパスの残りの間の区切り文字が重複・欠落しないように連結する
+    if (mapping.to.length > 0 && /[\\/]$/.test(mapping.to) && /^[\\/]/.test(rest)) {
+        return mapping.to + rest.slice(1);
+    }
+    if (mapping.to.length > 0 && !/[\\/]$/.test(mapping.to) && rest.length > 0 && !/^[\\/]/.test(rest)) {
+        return `${mapping.to}/${rest}`;
+    }
+    return mapping.to + rest;
+}
+
+/**
+ * 正規表現の書き換え規則を適用します。
+ * @param text 書き換えるパス
+ * @param mapping 書き換え規則
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue
+ * @returns 書き換え後のパス（一致しない場合や正規表現が不正な場合はnull）
+ */
+function applyRegexMapping(text: string, mapping: PathMapping, caseInsensitive: boolean): string | null {
+    let regex: RegExp;
+    try {
+        regex = new RegExp(mapping.from, caseInsensitive ? 'i' : '');
+    } catch {
+        return null;
+    }
+    return regex.test(text) ? text.replace(regex, mapping.to) : null;
+}
+
+/**
+ * パスに一致する書き換え規則を設定の順序で適用し、候補の一覧を返します。
+ * ワークスペースフォルダが指定された規則は、アクティブなワークスペースフォルダが一致する場合のみ適用します。
+ *
+ * @param text 書き換えるパス
+ * @param mappings 書き換え規則（優先順）
+ * @param activeWorkspaceFolder アクティブなワークスペースフォルダ名
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 書き換え後の候補（同じパスは最初の1つのみ）
+ */
+export function applyPathMappings(
+    text: string,
+    mappings: PathMapping[],
+    activeWorkspaceFolder?: string,
+    caseInsensitive: boolean = false
+): MappedCandidate[] {
+    const candidates: MappedCandidate[] = [];
+    for (const mapping of mappings) {
+        if (!mapping || typeof mapping.from !== 'string' || typeof mapping.to !== 'string') {
+            continue;
+        }
+        if (mapping.workspaceFolder && mapping.workspaceFolder !== activeWorkspaceFolder) {
+            continue;
+        }
+
+        const mapped = mapping.regex
+            ? applyRegexMapping(text, mapping, caseInsensitive)
+            : applyPrefixMapping(text, mapping, caseInsensitive);
+        if (mapped !== null && mapped !== text && !candidates.some(c => c.path === mapped)) {
+            candidates.push({ path: mapped, mapping });
+        }
+    }
+    return candidates;
+}
@@ -0,0 +1,287 @@
+/**
+ * エディタ上のテキストからパスを抽出するためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * テキスト中で検出されたパスの範囲
+ */
+export interface PathMatch {
+    text: string;   // 抽出したパス文字列
+    start: number;  // 行内の開始位置（文字単位）
+    end: number;    // 行内の終了位置（この位置は含まない）
+}
+
+// パスを囲む引用符・バッククォート
+const QUOTE_CHARS = ['"', "'", '`'];
+
+// トークンの区切りとみなす文字（空白・引用符・リダイレクト記号など）
+const TOKEN_BOUNDARY_REGEX = /[\s"'`<>|]/;
+
+// マークダウンリンク [label](target "title")
+const MARKDOWN_LINK_REGEX = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+
+// 先頭から取り除く開き括弧
+const LEADING_BRACKETS = '([{<';
+
+// 末尾から取り除く句読点・閉じ括弧
+const TRAILING_PUNCTUATION = '.,;:!?)]}>';
+
+// 対応する括弧のペア
+const BRACKET_PAIRS: { [close: string]: string } = {
+    ')': '(',
+    ']': '[',
+    '}': '{',
+    '>': '<'
+};
+
+/**
+ * 文字列中に含まれる特定の文字の数を数えます。
+ * @param text 対象の文字列
+ * @param char 数える文字
+ * @returns 出現回数
+ */
+function countChar(text: string, char: string): number {
+    let count = 0;
+    for (const c of text) {
+        if (c === char) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * トークンの前後から括弧や句読点を取り除きます。
+ * 閉じ括弧は対応する開き括弧がトークン内にない場合のみ取り除きます。
+ * @param match 対象のトークン
+ * @returns 取り除いた後のトークン（空になった場合はnull）
+ */
+function trimPunctuation(match: PathMatch): PathMatch | null {
+    let { text, start, end } = match;
+
+    // 先頭の開き括弧（対応する閉じ括弧がない場合）
+    while (text.length > 0 && LEADING_BRACKETS.includes(text[0])) {
+        const open = text[0];
+        const close = Object.keys(BRACKET_PAIRS).find(key => BRACKET_PAIRS[key] === open) as string;
+        if (countChar(text, open) <= countChar(text, close)) {
+            break;
+        }
+        text = text.slice(1);
+        start++;
+    }
+
+    // 末尾の句読点・閉じ括弧
+    while (text.length > 0 && TRAILING_PUNCTUATION.includes(text[text.length - 1])) {
+        const last = text[text.length - 1];
+        const open = BRACKET_PAIRS[last];
+        if (open && countChar(text, open) >= countChar(text, last)) {
+            // 括弧の対応が取れている場合はパスの一部とみなす
+            break;
+        }
+        text = text.slice(0, -1);
+        end--;
+    }
+
+    return text.length > 0 ? { text, start, end } : null;
+}
+
+/**
+ * 指定位置以降で次の引用符の位置を探します。
+ * 単語の途中にあるアポストロフィ（it's など）は引用符とみなしません。
+ * @param lineText 行のテキスト
+ * @param quote 引用符
+ * @param from 検索開始位置
+ * @returns 引用符の位置（見つからない場合は-1）
+ */
+function indexOfQuote(lineText: string, quote: string, from: number): number {
+    let index = lineText.indexOf(quote, from);
+    while (index !== -1 && quote === "'" &&
+        /\w/.test(lineText[index - 1] ?? '') && /\w/.test(lineText[index + 1] ?? '')) {
+        index = lineText.indexOf(quote, index + 1);
+    }
+    return index;
+}
+
+/**
+ * カーソル位置を囲む引用符・バッククォートの内側を探します。
+ * @param lineText 行のテキスト
+ * @param character カーソル位置
+ * @returns 囲まれた範囲（見つからない場合はnull）
+ */
+function findQuotedAt(lineText: string, character: number): PathMatch | null {
+    for (const quote of QUOTE_CHARS) {
+        // 行頭から順に引用符をペアにしていく
+        let open = indexOfQuote(lineText, quote, 0);
+        while (open !== -1) {
+            const close = indexOfQuote(lineText, quote, open + 1);
+            if (close === -1) {
+                break;
+            }
+            if (character > open && character <= close) {
+                const text = lineText.slice(open + 1, close).trim();
+                if (text.length === 0) {
+                    return null;
+                }
+                const start = lineText.indexOf(text, open + 1);
+                return { text, start, end: start + text.length };
+            }
+            open = indexOfQuote(lineText, quote, close + 1);
+        }
+    }
+    return null;
+}
+
+/**
+ * カーソル位置にあるマークダウンリンクのリンク先を探します。
+ * @param lineText 行のテキスト
+ * @param character カーソル位置
+ * @returns リンク先の範囲（見つからない場合はnull）
+ */
+function findMarkdownLinkAt(lineText: string, character: number): PathMatch | null {
+    MARKDOWN_LINK_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = MARKDOWN_LINK_REGEX.exec(lineText)) !== null) {
+        const matchEnd = match.index + match[0].length;
+        if (character >= match.index && character <= matchEnd) {
+            const target = match[1];
+            const start = lineText.indexOf(target, match.index + match[0].indexOf('('));
+            return { text: target, start, end: start + target.length };
+        }
+    }
+    return null;
+}
+
+/**
+ * カーソル位置の空白区切りトークンを探します。
+ * @param lineText 行のテキスト
+ * @param character カーソル位置
+ * @returns トークンの範囲（見つからない場合はnull）
+ */
+function findTokenAt(lineText: string, character: number): PathMatch | null {
+    let start = Math.min(character, lineText.length);
+    let end = start;
+
+    while (start > 0 && !TOKEN_BOUNDARY_REGEX.test(lineText[start - 1])) {
+        start--;
+    }
+    while (end < lineText.length && !TOKEN_BOUNDARY_REGEX.test(lineText[end])) {
+        end++;
+    }
+
+    if (start === end) {
+        return null;
+    }
+    return trimPunctuation({ text: lineText.slice(start, end), start, end });
+}
+
+/**
+ * 行内のカーソル位置にあるパスらしき文字列を検出します。
+ * 引用符・バッククォート・マークダウンリンクで囲まれたパスを優先し、
+ * 見つからない場合は前後の句読点を除いた空白区切りのトークンを返します。
+ *
+ * @param lineText 行のテキスト
+ * @param character カーソル位置（行内の文字インデックス）
+ * @returns 検出したパスの範囲（見つからない場合はnull）
+ */
+export function findPathAtPosition(lineText: string, character: number): PathMatch | null {
+    return findMarkdownLinkAt(lineText, character)
+        ?? findQuotedAt(lineText, character)
+        ?? findTokenAt(lineText, character);
+}
+
+// 絶対パスらしき文字列（ドライブパス・UNCパス・POSIXの絶対パス）
+const ABSOLUTE_PATH_CANDIDATE_REGEX =
+    /(?:(?<![\w])[a-zA-Z]:[\\/]|\\\\[^\s\\"'`<>|]+\\|(?<![\w.\/\\:~-])\/(?=[^\s\/]))[^\s"'`<>|*?]*/g;
+
+/**
+ * 行内に含まれる絶対パスらしき文字列をすべて検出します。
+ * 前後の句読点は取り除かれます。プラットフォームごとの妥当性は呼び出し側で検証してください。
+ *
+ * @param lineText 行のテキスト
+ * @returns 検出したパスの範囲の配列
+ */
+export function findPathCandidates(lineText: string): PathMatch[] {
+    const results: PathMatch[] = [];
+    ABSOLUTE_PATH_CANDIDATE_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ABSOLUTE_PATH_CANDIDATE_REGEX.exec(lineText)) !== null) {
+        const trimmed = trimPunctuation({
+            text: match[0],
+            start: match.index,
+            end: match.index + match[0].length
+        });
+        if (trimmed) {
+            results.push(trimmed);
+        }
+    }
+    return results;
+}
+
+/**
+ * パスの末尾に付加された行・列の位置（1始まり）
+ */
+export interface TextPosition {
+    line: number;     // 行番号
+    column?: number;  // 列番号
+}
+
+/**
+ * 位置指定を取り除いたパスと、その位置
+ */
+export interface PathWithPosition {
+    path: string;             // 位置指定を除いたパス
+    position?: TextPosition;  // 位置指定（ない場合はundefined）
+}
+
+// 位置指定の形式: path:42 / path:42:7 / path(42) / path(42,7)
+// (42) の形式は、Windowsの重複した名前（New folder (2)・dir(2)）と区別するため、
+// 拡張子の直後に空白なしで続く場合のみ位置指定とみなす
+const POSITION_SUFFIX_REGEXES = [
+    /^(.+?):(\d+)(?::(\d+))?:?$/,
+    /^(.+\.[^\\/\s.()]+)\((\d+)(?:,\s*(\d+))?\):?$/
+];
+
+/**
+ * パスの末尾にある行・列の位置指定を解析して取り除きます。
+ * コンパイラの出力（file.ts:42:7、file.cs(42,7)）やgrepの結果で使われる形式に対応します。
+ *
+ * @param text パスを表すテキスト
+ * @returns 位置指定を除いたパスと位置
+ */
+export function parsePositionSuffix(text: string): PathWithPosition {
+    for (const regex of POSITION_SUFFIX_REGEXES) {
+        const match = regex.exec(text);
+        // ドライブレターのみ（C:42 など）は位置指定とみなさない
+        if (match && !/^[a-zA-Z]$/.test(match[1])) {
+            const line = parseInt(match[2], 10);
+            if (line < 1) {
+                break;
+            }
+            const column = match[3] !== undefined ? parseInt(match[3], 10) : undefined;
+            return {
+                path: match[1],
+                position: { line, column: column !== undefined && column > 0 ? column : undefined }
+            };
+        }
+    }
+    return { path: text };
+}
+
+/**
+ * 複数行のテキストを1行1パスのリストとして分割します。
+ * 空行は除外し、同じパスが複数回現れた場合は最初の1つのみ残します。
+ *
+ * @param text 複数行のテキスト
+ * @returns パスを表すテキストの配列
+ */
+export function splitPathList(text: string): string[] {
+    const results: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed.length > 0 && !results.includes(trimmed)) {
+            results.push(trimmed);
+        }
+    }
+    return results;
+}
@@ -0,0 +1,148 @@
+/**
+ * Windows・WSL・POSIXの各形式の間でパスを変換するためのユーティリティ。
+ * VS Code APIに依存しない純粋な関数のみで構成されるため、どのOSでも単体でテスト可能です。
+ */
+
+import * as path from 'path';
+import { isUriInput } from './uriInput';
+
+/**
+ * パスの変換に使用するオプション
+ */
+export interface TranslationOptions {
+    platform: string;           // 変換先のプラットフォーム（process.platform）
+    wslDistribution?: string;   // Windowsで使用するWSLディストリビューション名（Linuxパスの変換に使用）
+    wslMountRoot?: string;      // WSLでWindowsドライブがマウントされているフォルダ（例: /mnt/）
+}
+
+// WSLのUNCパス（\\wsl$\Ubuntu\home\me / \\wsl.localhost\Ubuntu\home\me）
+const WSL_UNC_REGEX = /^[\\/]{2}wsl(?:\$|\.localhost)[\\/]([^\\/]+)(?:[\\/](.*))?$/i;
+
+// Windowsのドライブパス（C:\x / C:/x / C:）
+const DRIVE_PATH_REGEX = /^([a-zA-Z]):(?:[\\/](.*))?$/;
+
+/**
+ * マウントルートを末尾のスラッシュ付きの形式に揃えます。
+ * @param mountRoot マウントルート
+ * @returns 末尾がスラッシュのマウントルート
+ */
+function normalizeMountRoot(mountRoot: string): string {
+    const withLeading = mountRoot.startsWith('/') ? mountRoot : `/${mountRoot}`;
+    return withLeading.endsWith('/') ? withLeading : `${withLeading}/`;
+}
+
+/**
+ * 正規表現の特殊文字をエスケープします。
+ * @param text エスケープする文字列
+ * @returns エスケープされた文字列
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 他のプラットフォーム形式のパスをWindows形式に変換します。
+ * - C:/x/y → C:\x\y
+ * - //server/share → \\server\share
+ * - /mnt/c/x → C:\x
+ * - /home/me/x → \\wsl.localhost\<distro>\home\me\x（ディストリビューションが指定されている場合）
+ * @param text 変換するパス
+ * @param options 変換オプション
+ * @returns Windows形式のパス（変換できない場合は元のパス）
+ */
+export function toWindowsPath(text: string, options: TranslationOptions): string {
+    const drive = DRIVE_PATH_REGEX.exec(text);
+    if (drive) {
+        return `${drive[1].toUpperCase()}:\\${(drive[2] ?? '').replace(/\//g, '\\')}`;
+    }
+
+    if (!text.startsWith('/')) {
+        return text;
+    }
+
+    // スラッシュ区切りのUNCパス（//server/share）
+    if (text.startsWith('//')) {
+        return text.replace(/\//g, '\\');
+    }
+
+    const mountRoot = normalizeMountRoot(options.wslMountRoot || '/mnt/');
+    const mounted = new RegExp(`^${escapeRegExp(mountRoot)}([a-zA-Z])(?:/(.*))?$`).exec(text);
+    if (mounted) {
+        return `${mounted[1].toUpperCase()}:\\${(mounted[2] ?? '').replace(/\//g, '\\')}`;
+    }
+
+    if (options.wslDistribution) {
+        return `\\\\wsl.localhost\\${options.wslDistribution}${text.replace(/\//g, '\\')}`;
+    }
+
+    return text;
+}
+
+/**
+ * Windows形式・WSLのUNC形式のパスをPOSIX形式（WSL内のパス）に変換します。
+ * - \\wsl$\Ubuntu\home\me → /home/me
+ * - \\wsl.localhost\Ubuntu\home\me → /home/me
+ * - C:\x\y / C:/x/y → /mnt/c/x/y
+ * @param text 変換するパス
+ * @param options 変換オプション
+ * @returns POSIX形式のパス（変換できない場合は元のパス）
+ */
+export function toPosixPath(text: string, options: TranslationOptions): string {
+    const wsl = WSL_UNC_REGEX.exec(text);
+    if (wsl) {
+        return `/${(wsl[2] ?? '').replace(/\\/g, '/')}`;
+    }
+
+    const drive = DRIVE_PATH_REGEX.exec(text);
+    if (drive) {
+        const mountRoot = normalizeMountRoot(options.wslMountRoot || '/mnt/');
+        const rest = (drive[2] ?? '').replace(/\\/g, '/');
+        return `${mountRoot}${drive[1].toLowerCase()}${rest ? `/${rest}` : ''}`;
+    }
+
+    return text;
+}
+
+/**
+ * 他のプラットフォーム向けに書かれたパスを、変換先のプラットフォームで開ける形式に変換します。
+ * Windowsでは /mnt/c/... や C:/... をWindows形式に、LinuxではWindows形式やWSLのUNCパスを
+ * WSL内のパスに変換します。その他のプラットフォームでは変換しません。
+ *
+ * @param text 変換するパス
+ * @param options 変換オプション
+ * @returns 変換後のパス
+ */
+export function translatePath(text: string, options: TranslationOptions): string {
+    switch (options.platform) {
+        case 'win32':
+            return toWindowsPath(text, options);
+        case 'linux':
+            return toPosixPath(text, options);
+        default:
+            return text;
+    }
+}
+
+/**
+ * 入力されたパスの前後の空白・引用符を取り除き、正規化します。
+ * Windowsでは、POSIX形式のパス（/mnt/c/...、/home/...）を区切り文字を残したまま正規化し、
+ * 後段の translatePath でWindows形式に変換できるようにします。
+ * @param inputPath 入力パス
+ * @param platform 実行中のプラットフォーム（process.platform）
+ * @returns サニタイズされたパス
+ */
+export function sanitizePathText(inputPath: string, platform: string): string {
+    // トリミングして余分な空白・引用符を削除
+    const sanitized = inputPath.trim().replace(/["']/g, '');
+
+    // URI形式（file://・smb://）はスラッシュが失われないよう正規化しない
+    if (isUriInput(sanitized)) {
+        return sanitized;
+    }
+
+    // 正規化（../などの解決）。スラッシュ区切りのUNCパス（//server/share）はWindowsの規則で正規化する
+    if (platform === 'win32' && !/^\/(?!\/)/.test(sanitized)) {
+        return path.win32.normalize(sanitized);
+    }
+    return path.posix.normalize(sanitized);
+}
@@ -0,0 +1,118 @@
+import { spawn } from 'child_process';
+
+/**
+ * プロセスの起動オプション
+ */
+export interface LaunchOptions {
+    timeoutMs?: number;   // 終了を待つ最大時間（ミリ秒）。超えた場合はプロセスを終了する
+    detached?: boolean;   // 起動の完了のみを待ち、終了を待たずに切り離す
+    exitWaitMs?: number;  // 切り離す場合に、起動後この時間内に終了したときは終了コードで成否を判定する（ミリ秒）
+    cwd?: string;         // 作業フォルダ
+}
+
+/**
+ * プロセスの実行結果
+ */
+export interface LaunchResult {
+    success: boolean;     // 起動（切り離さない場合は正常終了）に成功したかどうか
+    output?: string;      // 標準出力
+    error?: string;       // 標準エラー出力またはエラーメッセージ
+    exitCode?: number;    // 終了コード（切り離した場合やタイムアウトの場合はundefined）
+    timedOut?: boolean;   // タイムアウトしたかどうか
+}
+
+/**
+ * シェルを介さずに、引数の配列でプロセスを起動します。
+ * 引数はそのままプロセスに渡されるため、エスケープやコマンドインジェクションの対策は不要です。
+ *
+ * 切り離して起動した場合は、プロセスが起動した時点で結果を返します。
+ * ファイルマネージャーのように終了しないプロセスでPromiseが解決されないことを防ぎます。
+ * exitWaitMs を指定した場合は、その時間内に終了すれば終了コードで成否を判定し、終了しなければ成功とみなします。
+ * 切り離さない場合は、終了するかタイムアウトするまで待ちます。
+ *
+ * @param command 実行するコマンド
+ * @param args コマンド引数
+ * @param options 起動オプション
+ * @returns 実行結果のPromise
+ */
+export function launchProcess(command: string, args: string[], options: LaunchOptions = {}): Promise<LaunchResult> {
+    return new Promise(resolve => {
+        let settled = false;
+        const finish = (result: LaunchResult) => {
+            if (!settled) {
+                settled = true;
+                resolve(result);
+            }
+        };
+
+        let stdout = '';
+        let stderr = '';
+        let child;
+        try {
+            child = spawn(command, args, {
+                cwd: options.cwd,
+                shell: false,
+                detached: options.detached ?? false,
+                stdio: options.detached ? 'ignore' : ['ignore', 'pipe', 'pipe'],
+                windowsHide: !options.detached
+            });
+        } catch (error: any) {
+            finish({ success: false, error: error.message });
+            return;
+        }
+
+        // タイムアウト（切り離す場合は起動が完了しないとき、切り離さない場合は終了しないときに発生）
+        const timer = options.timeoutMs && options.timeoutMs > 0
+            ? setTimeout(() => {
+                if (!options.detached) {
+                    child.kill();
+                }
+                finish({ success: false, output: stdout, error: stderr || undefined, timedOut: true });
+            }, options.timeoutMs)
+            : undefined;
+        const clearTimer = () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+        };
+
+        child.on('error', error => {
+            clearTimer();
+            finish({ success: false, error: error.message });
+        });
+
+        if (options.detached) {
+            child.on('spawn', () => {
+                clearTimer();
+                if (!options.exitWaitMs || options.exitWaitMs <= 0) {
+                    child.unref();
+                    finish({ success: true });
+                    return;
+                }
+                // すぐに終了した場合（開けるアプリケーションがないなど）は終了コードで判定する
+                const exitTimer = setTimeout(() => {
+                    child.unref();
+                    finish({ success: true });
+                }, options.exitWaitMs);
+                child.on('exit', (code: number | null) => {
+                    clearTimeout(exitTimer);
+                    finish({ success: code === 0, exitCode: code ?? undefined });
+                });
+            });
+            return;
+        }
+
+        child.stdout?.on('data', (chunk: Buffer) => stdout += chunk.toString());
+        child.stderr?.on('data', (chunk: Buffer) => stderr += chunk.toString());
+
+        child.on('close', (code: number | null) => {
+            clearTimer();
+            finish({
+                success: code === 0,
+                output: stdout,
+                error: stderr || undefined,
+                exitCode: code ?? undefined
+            });
+        });
+    });
+}
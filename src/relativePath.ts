@@ -0,0 +1,79 @@
+import * as path from 'path';
+
+/**
+ * 相対パスの解決に使用する基準フォルダ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+export interface BaseDirectory {
+    directory: string;                        // 基準フォルダの絶対パス
+    kind: 'document' | 'workspace' | 'search'; // 基準フォルダの種類
+    label: string;                            // 表示用の名前
+}
+
+/**
+ * 相対パスの解決候補
+ */
+export interface RelativeCandidate {
+    path: string;          // 解決後の絶対パス
+    base: BaseDirectory;   // 解決に使用した基準フォルダ
+}
+
+/**
+ * パスに親フォルダへの参照（..）が含まれるかどうかを判定します。
+ * @param text パス文字列
+ * @returns 含まれる場合はtrue
+ */
+export function hasParentSegments(text: string): boolean {
+    return text.split(/[\\/]/).includes('..');
+}
+
+/**
+ * パスが指定されたフォルダの内側（フォルダ自体を含む）にあるかどうかを判定します。
+ * @param target 判定するパス
+ * @param folder フォルダのパス
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns フォルダの内側にある場合はtrue
+ */
+export function isPathInside(target: string, folder: string, caseInsensitive: boolean = false): boolean {
+    const relative = caseInsensitive
+        ? path.relative(folder.toLowerCase(), target.toLowerCase())
+        : path.relative(folder, target);
+    return relative === '' || (!hasParentSegments(relative) && !path.isAbsolute(relative));
+}
+
+/**
+ * 相対パスを各基準フォルダに対して解決した候補を、基準フォルダの順序で返します。
+ * 同じパスに解決される候補は最初の1つのみ残します。
+ * 親フォルダへの参照（..）を含む場合は、いずれかのワークスペースフォルダの内側に
+ * 解決される候補のみを残します。
+ *
+ * @param relativePath 相対パス
+ * @param baseDirectories 基準フォルダ（優先順）
+ * @param workspaceFolders ワークスペースフォルダのパス
+ * @param caseInsensitive 大文字と小文字を区別しない場合はtrue（Windows）
+ * @returns 解決候補の配列
+ */
+export function buildRelativeCandidates(
+    relativePath: string,
+    baseDirectories: BaseDirectory[],
+    workspaceFolders: string[],
+    caseInsensitive: boolean = false
+): RelativeCandidate[] {
+    const restrictToWorkspace = hasParentSegments(relativePath);
+    const candidates: RelativeCandidate[] = [];
+
+    for (const base of baseDirectories) {
+        const resolved = path.resolve(base.directory, relativePath);
+        if (restrictToWorkspace &&
+            !workspaceFolders.some(folder => isPathInside(resolved, folder, caseInsensitive))) {
+            continue;
+        }
+        const key = caseInsensitive ? resolved.toLowerCase() : resolved;
+        if (candidates.some(c => (caseInsensitive ? c.path.toLowerCase() : c.path) === key)) {
+            continue;
+        }
+        candidates.push({ path: resolved, base });
+    }
+
+    return candidates;
+}
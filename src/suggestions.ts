@@ -0,0 +1,73 @@
+/**
+ * 存在しないパスに対して、似た名前のファイル・フォルダを提案するためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * 2つの文字列のレーベンシュタイン距離（編集距離）を計算します。
+ * @param a 比較する文字列
+ * @param b 比較する文字列
+ * @returns 編集距離
+ */
+export function editDistance(a: string, b: string): number {
+    if (a === b) {
+        return 0;
+    }
+    if (a.length === 0) {
+        return b.length;
+    }
+    if (b.length === 0) {
+        return a.length;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * 名前の長さに応じた、似ているとみなす編集距離の上限を返します。
+ * @param name 名前
+ * @returns 編集距離の上限
+ */
+function maxDistanceFor(name: string): number {
+    return Math.max(2, Math.floor(name.length / 4));
+}
+
+/**
+ * 候補の中から、指定された名前に似ている名前を近い順に返します。
+ * 大文字と小文字の違いのみの名前は最も近いものとして扱います。
+ *
+ * @param name 探している名前
+ * @param candidates 候補の名前（同じフォルダ内のエントリなど）
+ * @param limit 返す最大数
+ * @returns 似ている名前（近い順）
+ */
+export function findSimilarNames(name: string, candidates: string[], limit: number = 10): string[] {
+    const lowerName = name.toLowerCase();
+    const threshold = maxDistanceFor(name);
+    const scored: { name: string; score: number }[] = [];
+
+    for (const candidate of candidates) {
+        if (candidate === name) {
+            continue;
+        }
+        const lowerCandidate = candidate.toLowerCase();
+        const score = lowerCandidate === lowerName ? 0 : editDistance(lowerName, lowerCandidate);
+        if (score <= threshold) {
+            scored.push({ name: candidate, score });
+        }
+    }
+
+    return scored
+        .sort((x, y) => x.score - y.score || x.name.localeCompare(y.name))
+        .slice(0, limit)
+        .map(entry => entry.name);
+}
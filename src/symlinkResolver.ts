@@ -0,0 +1,115 @@
+/**
+ * シンボリックリンクの参照先を、途中のリンクをすべて記録しながら解決するためのユーティリティ。
+ * パスの各要素を順に確認するため、親フォルダのリンクや相対パスの参照先、リンクの連鎖にも対応します。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * 解決の途中で通過したリンク
+ */
+export interface SymlinkHop {
+    linkPath: string;   // リンクのパス
+    target: string;     // リンクに記録された参照先（相対パスの場合はそのまま）
+    resolved: string;   // リンクのフォルダを基準に解決した参照先の絶対パス
+}
+
+/**
+ * 解決の結果
+ * - ok: 解決できた（パスが存在しない場合も含む）
+ * - dangling: リンクの参照先が存在しない
+ * - loop: リンクが循環している、または通過したリンクが多すぎる
+ */
+export type SymlinkStatus = 'ok' | 'dangling' | 'loop';
+
+/**
+ * シンボリックリンクの解決結果
+ */
+export interface SymlinkChain {
+    status: SymlinkStatus;
+    hops: SymlinkHop[];   // 通過したリンク（通過順）
+    finalPath: string;    // 解決後のパス（dangling・loop の場合は解決を中断した位置）
+}
+
+// 通過できるリンクの最大数（Linuxの MAXSYMLINKS と同じ値）
+export const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * パスをルートと要素に分割します。
+ * @param filePath 絶対パス
+ * @returns ルートと要素の配列
+ */
+function splitPath(filePath: string): { root: string; segments: string[] } {
+    const { root } = path.parse(filePath);
+    const segments = filePath.slice(root.length).split(/[\\/]+/).filter(segment => segment !== '');
+    return { root, segments };
+}
+
+/**
+ * パスに含まれるシンボリックリンクを先頭から順に解決します。
+ * リンクの参照先が相対パスの場合は、リンクのあるフォルダを基準に解決します。
+ * リンク以外の要素が存在しない場合は、その位置で解決を終えて status を ok とします。
+ *
+ * @param filePath 解決するパス（相対パスの場合はカレントディレクトリを基準とする）
+ * @param maxHops 通過できるリンクの最大数
+ * @returns 解決結果
+ */
+export async function resolveSymlinkChain(filePath: string, maxHops: number = MAX_SYMLINK_HOPS): Promise<SymlinkChain> {
+    const hops: SymlinkHop[] = [];
+    const { root, segments } = splitPath(path.resolve(filePath));
+    const remaining = [...segments];
+    // 同じリンクを同じ残りのパスで再び通過した場合は循環とみなす
+    const visited = new Set<string>();
+    let current = root;
+
+    while (remaining.length > 0) {
+        const segment = remaining.shift()!;
+        if (segment === '.') {
+            continue;
+        }
+        if (segment === '..') {
+            current = path.dirname(current);
+            continue;
+        }
+
+        const candidate = path.join(current, segment);
+        let isLink: boolean;
+        try {
+            isLink = (await fs.lstat(candidate)).isSymbolicLink();
+        } catch {
+            // 存在しない要素以降は解決せずにつなげる
+            return { status: 'ok', hops, finalPath: path.join(candidate, ...remaining) };
+        }
+        if (!isLink) {
+            current = candidate;
+            continue;
+        }
+
+        const key = `${candidate}\0${remaining.join('/')}`;
+        if (visited.has(key) || hops.length >= maxHops) {
+            return { status: 'loop', hops, finalPath: path.join(candidate, ...remaining) };
+        }
+        visited.add(key);
+
+        const target = await fs.readlink(candidate);
+        const resolved = path.resolve(current, target);
+        hops.push({ linkPath: candidate, target, resolved });
+
+        try {
+            await fs.lstat(resolved);
+        } catch (error: any) {
+            // 参照先の途中に循環がある場合はELOOPになる
+            const status = error.code === 'ELOOP' ? 'loop' : 'dangling';
+            return { status, hops, finalPath: resolved };
+        }
+
+        // 参照先の要素を残りのパスの先頭に加えて解決を続ける
+        const next = splitPath(resolved);
+        current = next.root;
+        remaining.unshift(...next.segments);
+    }
+
+    return { status: 'ok', hops, finalPath: current };
+}
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { findArchiveLocation, getArchiveKind, listArchiveEntries, readArchiveEntry } from '../archiveReader';
+
+/**
+ * テスト用のZIPを作成します（CRCは検証しないため0とする）。
+ */
+function createZip(files: { name: string; content: string; deflate?: boolean; declaredSize?: number }[]): Buffer {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+	for (const file of files) {
+		const name = Buffer.from(file.name, 'utf8');
+		const raw = Buffer.from(file.content, 'utf8');
+		const data = file.deflate ? zlib.deflateRawSync(raw) : raw;
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034B50, 0);
+		local.writeUInt16LE(0x0800, 6);
+		local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(raw.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014B50, 0);
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+		central.writeUInt32LE(data.length, 20);
+		central.writeUInt32LE(file.declaredSize ?? raw.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		locals.push(local, name, data);
+		centrals.push(central, name);
+		offset += local.length + name.length + data.length;
+	}
+	const directory = Buffer.concat(centrals);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054B50, 0);
+	end.writeUInt16LE(files.length, 8);
+	end.writeUInt16LE(files.length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * テスト用のtarを作成します。
+ */
+function createTar(files: { name: string; content: string; type?: string }[]): Buffer {
+	const blocks: Buffer[] = [];
+	for (const file of files) {
+		const data = Buffer.from(file.content, 'utf8');
+		const header = Buffer.alloc(512);
+		header.write(file.name, 0, 'utf8');
+		header.write(data.length.toString(8).padStart(11, '0'), 124, 'latin1');
+		header.write(file.type ?? '0', 156, 'latin1');
+		header.write('ustar', 257, 'latin1');
+		blocks.push(header, data, Buffer.alloc((512 - data.length % 512) % 512));
+	}
+	blocks.push(Buffer.alloc(1024));
+	return Buffer.concat(blocks);
+}
+
+suite('archiveReader', () => {
+	let dir: string;
+	let zipPath: string;
+	let tarGzPath: string;
+
+	suiteSetup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'open-in-explorer-archive-'));
+		zipPath = path.join(dir, 'build.zip');
+		fs.writeFileSync(zipPath, createZip([
+			{ name: 'bin/', content: '' },
+			{ name: 'bin/readme.txt', content: 'stored entry' },
+			{ name: 'bin/app.log', content: 'deflated '.repeat(100), deflate: true }
+		]));
+		tarGzPath = path.join(dir, 'logs.tar.gz');
+		const longName = `var/log/${'x'.repeat(120)}.log`;
+		fs.writeFileSync(tarGzPath, zlib.gzipSync(createTar([
+			{ name: 'var/log/', content: '', type: '5' },
+			{ name: 'var/log/app.log', content: 'hello from tar\n' },
+			{ name: '././@LongLink', content: longName, type: 'L' },
+			{ name: longName.slice(0, 99), content: 'long name\n' }
+		])));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('拡張子からアーカイブの形式を判定する', () => {
+		assert.strictEqual(getArchiveKind('a.TAR.GZ'), 'tar.gz');
+		assert.strictEqual(getArchiveKind('a.tgz'), 'tar.gz');
+		assert.strictEqual(getArchiveKind('a.jar'), 'zip');
+		assert.strictEqual(getArchiveKind('a.txt'), undefined);
+	});
+
+	test('祖先のアーカイブとその中のパスに分割する', async () => {
+		const isFile = async (p: string) => p === 'C:\\drops\\build.zip';
+		assert.deepStrictEqual(await findArchiveLocation('C:\\drops\\build.zip\\bin\\app.dll', isFile), {
+			archivePath: 'C:\\drops\\build.zip', kind: 'zip', entryPath: 'bin/app.dll'
+		});
+		assert.strictEqual(await findArchiveLocation('C:\\drops\\other\\app.dll', isFile), undefined);
+	});
+
+	test('ZIPのエントリを一覧し、無圧縮・deflateのエントリを読み込む', async () => {
+		const entries = await listArchiveEntries(zipPath, 'zip');
+		assert.deepStrictEqual(entries.map(e => [e.name, e.isDirectory]), [['bin', true], ['bin/readme.txt', false], ['bin/app.log', false]]);
+		assert.strictEqual((await readArchiveEntry(zipPath, 'zip', 'bin/readme.txt'))?.toString(), 'stored entry');
+		assert.strictEqual((await readArchiveEntry(zipPath, 'zip', 'bin/app.log'))?.toString(), 'deflated '.repeat(100));
+		assert.strictEqual(await readArchiveEntry(zipPath, 'zip', 'bin/missing.txt'), undefined);
+	});
+
+	test('宣言されたサイズを超えて展開しない', async () => {
+		const lying = path.join(dir, 'lying.zip');
+		fs.writeFileSync(lying, createZip([{ name: 'bomb.txt', content: 'x'.repeat(100000), deflate: true, declaredSize: 10 }]));
+		await assert.rejects(readArchiveEntry(lying, 'zip', 'bomb.txt'), /larger than declared/);
+	});
+
+	test('tar.gzのエントリを一覧し、長いファイル名のエントリも読み込む', async () => {
+		const entries = await listArchiveEntries(tarGzPath, 'tar.gz');
+		assert.deepStrictEqual(entries.map(e => e.name), ['var/log', 'var/log/app.log', `var/log/${'x'.repeat(120)}.log`]);
+		assert.strictEqual((await readArchiveEntry(tarGzPath, 'tar.gz', 'var/log/app.log'))?.toString(), 'hello from tar\n');
+		assert.strictEqual((await readArchiveEntry(tarGzPath, 'tar.gz', `var/log/${'x'.repeat(120)}.log`))?.toString(), 'long name\n');
+	});
+});
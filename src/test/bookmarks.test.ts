@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { addBookmark, getBookmarkLabel, groupBookmarks, removeBookmark, sanitizeBookmarks } from '../bookmarks';
+
+suite('bookmarks', () => {
+	test('パスのない設定値を除外する', () => {
+		assert.deepStrictEqual(sanitizeBookmarks([{ path: '/a' }, { path: ' ' }, { name: 'x' }, null]), [{ path: '/a' }]);
+		assert.deepStrictEqual(sanitizeBookmarks(undefined), []);
+	});
+
+	test('表示名を取得する', () => {
+		assert.strictEqual(getBookmarkLabel({ path: '\\\\server\\drops\\build\\', name: 'Drops' }), 'Drops');
+		assert.strictEqual(getBookmarkLabel({ path: '\\\\server\\drops\\build\\' }), 'build');
+		assert.strictEqual(getBookmarkLabel({ path: '/var/log' }), 'log');
+		assert.strictEqual(getBookmarkLabel({ path: '/' }), '/');
+	});
+
+	test('グループごとにまとめ、グループのないものを最後にする', () => {
+		const groups = groupBookmarks([
+			{ path: '/a' },
+			{ path: '/logs/1', group: 'Logs' },
+			{ path: '/specs', group: 'Specs' },
+			{ path: '/logs/2', group: ' Logs ' }
+		]);
+		assert.deepStrictEqual(groups.map(group => [group.name, group.bookmarks.length]), [['Logs', 2], ['Specs', 1], [undefined, 1]]);
+	});
+
+	test('同じパス・グループは置き換え、削除できる', () => {
+		let bookmarks = addBookmark([{ path: 'C:\\Drops', group: 'CI' }], { path: 'c:\\drops', group: 'CI', name: 'Drops' }, true);
+		assert.deepStrictEqual(bookmarks, [{ path: 'c:\\drops', group: 'CI', name: 'Drops' }]);
+		bookmarks = addBookmark(bookmarks, { path: 'c:\\drops' });
+		assert.strictEqual(bookmarks.length, 2);
+		assert.deepStrictEqual(removeBookmark(bookmarks, { path: 'c:\\drops', group: 'CI' }), [{ path: 'c:\\drops' }]);
+	});
+
+	test('削除でも追加と同じくグループの前後の空白を無視する', () => {
+		const bookmarks = addBookmark([{ path: '/logs', group: ' Logs ' }], { path: '/logs', group: 'Logs' });
+		assert.deepStrictEqual(bookmarks, [{ path: '/logs', group: 'Logs' }]);
+		assert.deepStrictEqual(removeBookmark([{ path: '/logs', group: ' Logs ' }], { path: '/logs', group: 'Logs' }), []);
+		assert.deepStrictEqual(removeBookmark([{ path: 'C:\\Logs' }], { path: 'c:\\logs' }, true), []);
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { classifyOpenInExplorerArgument } from '../commandArguments';
+
+suite('commandArguments', () => {
+	const file = (fsPath: string) => ({ scheme: 'file', fsPath });
+
+	test('リソースのパスを取得し、複数選択を優先する', () => {
+		assert.deepStrictEqual(classifyOpenInExplorerArgument(file('/a')), { kind: 'resources', paths: ['/a'] });
+		assert.deepStrictEqual(
+			classifyOpenInExplorerArgument(file('/a'), [file('/a'), file('/b')]),
+			{ kind: 'resources', paths: ['/a', '/b'] }
+		);
+		assert.deepStrictEqual(classifyOpenInExplorerArgument(file('/a'), []), { kind: 'resources', paths: ['/a'] });
+	});
+
+	test('リソースのパスはテキストとして解釈せずにそのまま使用する', () => {
+		const paths = ["/home/me/John's notes.txt", '/srv/backup(2)', '/home/me/price$tag.txt'];
+		assert.deepStrictEqual(
+			classifyOpenInExplorerArgument(file(paths[0]), paths.map(file)),
+			{ kind: 'resources', paths }
+		);
+	});
+
+	test('file スキーム以外のリソースを除外する', () => {
+		const untitled = { scheme: 'untitled', fsPath: 'Untitled-1' };
+		assert.deepStrictEqual(classifyOpenInExplorerArgument(untitled), { kind: 'resources', paths: [] });
+		assert.deepStrictEqual(
+			classifyOpenInExplorerArgument(file('/a'), [untitled, file('/b')]),
+			{ kind: 'resources', paths: ['/b'] }
+		);
+	});
+
+	test('文字列はパスを表すテキストとして扱う', () => {
+		assert.deepStrictEqual(classifyOpenInExplorerArgument('C:\\work'), { kind: 'text', text: 'C:\\work' });
+	});
+
+	test('それ以外は選択範囲とプロファイルとして扱う', () => {
+		assert.deepStrictEqual(classifyOpenInExplorerArgument({ profile: 'tc' }), { kind: 'selection', profile: 'tc' });
+		assert.deepStrictEqual(classifyOpenInExplorerArgument({ profile: 1 }), { kind: 'selection', profile: undefined });
+		assert.deepStrictEqual(classifyOpenInExplorerArgument(undefined), { kind: 'selection', profile: undefined });
+		assert.deepStrictEqual(classifyOpenInExplorerArgument(null), { kind: 'selection', profile: undefined });
+	});
+});
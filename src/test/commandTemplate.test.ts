@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { expandCommandTemplate, hasPlaceholders, splitCommandLine } from '../commandTemplate';
+
+suite('commandTemplate', () => {
+	const values = { path: 'C:\\My Docs\\a.txt', dir: 'C:\\My Docs', name: 'a.txt', line: 42 };
+
+	test('引用符を考慮してコマンドラインを分割する', () => {
+		assert.deepStrictEqual(splitCommandLine('"C:\\Program Files\\TC\\tc.exe" /O  /T'), ['C:\\Program Files\\TC\\tc.exe', '/O', '/T']);
+		assert.deepStrictEqual(splitCommandLine("dolphin --select 'a b'"), ['dolphin', '--select', 'a b']);
+		assert.deepStrictEqual(splitCommandLine('a ""'), ['a', '']);
+		assert.strictEqual(splitCommandLine('"unclosed'), null);
+	});
+
+	test('プレースホルダーを引数ごとに置き換える', () => {
+		assert.deepStrictEqual(expandCommandTemplate('explorer.exe /select,${path}', values), {
+			command: 'explorer.exe',
+			args: ['/select,C:\\My Docs\\a.txt']
+		});
+		assert.deepStrictEqual(expandCommandTemplate('code -g ${path}:${line}:${column}', values), {
+			command: 'code',
+			args: ['-g', 'C:\\My Docs\\a.txt:42:1']
+		});
+		assert.deepStrictEqual(expandCommandTemplate('tc.exe /O /T "${dir}" ${name}', values), {
+			command: 'tc.exe',
+			args: ['/O', '/T', 'C:\\My Docs', 'a.txt']
+		});
+	});
+
+	test('プレースホルダーがない場合は末尾にパスを追加する', () => {
+		assert.deepStrictEqual(expandCommandTemplate('nautilus', values), {
+			command: 'nautilus',
+			args: ['C:\\My Docs\\a.txt']
+		});
+		assert.strictEqual(hasPlaceholders('nautilus'), false);
+		assert.strictEqual(hasPlaceholders('x ${dir}'), true);
+	});
+
+	test('不正なテンプレートはnullを返す', () => {
+		assert.strictEqual(expandCommandTemplate('', values), null);
+		assert.strictEqual(expandCommandTemplate('"a', values), null);
+	});
+});
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { buildInvokeItemCommand, getDefaultApplicationCommands } from '../defaultApplication';
+
+suite('defaultApplication', () => {
+	test('Invoke-Itemのスクリプトをエンコードして渡す', () => {
+		const { command, args } = buildInvokeItemCommand("C:\\Docs\\Bob's report.pdf");
+		assert.strictEqual(command, 'powershell.exe');
+		const script = Buffer.from(args[args.length - 1], 'base64').toString('utf16le');
+		assert.strictEqual(script, "Invoke-Item -LiteralPath 'C:\\Docs\\Bob''s report.pdf'");
+	});
+
+	test('プラットフォームごとのコマンドを作成する', () => {
+		assert.deepStrictEqual(getDefaultApplicationCommands('darwin', '/a b.pdf'), [{ command: 'open', args: ['/a b.pdf'] }]);
+		assert.deepStrictEqual(getDefaultApplicationCommands('linux', '/a.pdf').map(c => c.command), ['xdg-open', 'gio']);
+		assert.deepStrictEqual(getDefaultApplicationCommands('aix', '/a.pdf'), []);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { detectEncoding, getEncodingLabel, isValidUtf8, toVSCodeEncoding } from '../encodingDetection';
+
+suite('encodingDetection', () => {
+	// 「こんにちは、世界」
+	const shiftJis = Buffer.from([0x82, 0xB1, 0x82, 0xF1, 0x82, 0xC9, 0x82, 0xBF, 0x82, 0xCD, 0x81, 0x41, 0x90, 0xA2, 0x8A, 0x45]);
+	const eucJp = Buffer.from([0xA4, 0xB3, 0xA4, 0xF3, 0xA4, 0xCB, 0xA4, 0xC1, 0xA4, 0xCF, 0xA1, 0xA2, 0xC0, 0xA4, 0xB3, 0xA6]);
+
+	test('BOMから判定する', () => {
+		assert.strictEqual(detectEncoding(Buffer.from([0xEF, 0xBB, 0xBF, 0x61])), 'utf8bom');
+		assert.strictEqual(detectEncoding(Buffer.from([0xFF, 0xFE, 0x61, 0x00])), 'utf16le');
+		assert.strictEqual(detectEncoding(Buffer.from([0xFE, 0xFF, 0x00, 0x61])), 'utf16be');
+	});
+
+	test('BOMのないUTF-16を判定する', () => {
+		assert.strictEqual(detectEncoding(Buffer.from('hello world', 'utf16le')), 'utf16le');
+		assert.strictEqual(detectEncoding(Buffer.from('hello world', 'utf16le').swap16()), 'utf16be');
+	});
+
+	test('UTF-8とASCIIを判定する', () => {
+		assert.strictEqual(detectEncoding(Buffer.from('plain text')), 'ascii');
+		assert.strictEqual(detectEncoding(Buffer.from('こんにちは、世界')), 'utf8');
+		// 読み込み範囲の末尾で途切れた文字は許容する
+		assert.strictEqual(isValidUtf8(Buffer.from('あい').subarray(0, 5)), true);
+		assert.strictEqual(isValidUtf8(Buffer.from([0x61, 0xC0, 0x80])), false);
+	});
+
+	test('Shift_JISとEUC-JPを判定する', () => {
+		assert.strictEqual(detectEncoding(shiftJis), 'shiftjis');
+		assert.strictEqual(detectEncoding(eucJp), 'eucjp');
+	});
+
+	test('ISO-2022-JPを判定する', () => {
+		const iso2022jp = Buffer.from([0x1B, 0x24, 0x42, 0x24, 0x33, 0x24, 0x73, 0x1B, 0x28, 0x42]);
+		assert.strictEqual(detectEncoding(iso2022jp), 'iso2022jp');
+		assert.strictEqual(toVSCodeEncoding('iso2022jp'), undefined);
+	});
+
+	test('テキストでないバイト列はundefinedを返す', () => {
+		assert.strictEqual(detectEncoding(Buffer.from([0x01, 0x00, 0x02, 0x03, 0x00, 0x00, 0xFF])), undefined);
+	});
+
+	test('VS Codeの文字コードと表示名に変換する', () => {
+		assert.strictEqual(toVSCodeEncoding('shiftjis'), 'shiftjis');
+		assert.strictEqual(getEncodingLabel('eucjp'), 'EUC-JP');
+	});
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { filterProfilesForPlatform, findProfile, sanitizeProfiles, selectProfileCommand } from '../explorerProfiles';
+
+suite('explorerProfiles', () => {
+	const profiles = sanitizeProfiles([
+		{ name: 'Total Commander', platforms: ['win32'], command: 'tc.exe /O /T "${dir}"' },
+		{ name: 'Dolphin', platforms: ['linux'], fileCommand: 'dolphin --select ${path}', folderCommand: 'dolphin ${path}' },
+		{ name: 'Everywhere', command: 'fm ${path}' },
+		{ command: 'no-name' },
+		null
+	]);
+
+	test('名前のないプロファイルを除外する', () => {
+		assert.deepStrictEqual(profiles.map(p => p.name), ['Total Commander', 'Dolphin', 'Everywhere']);
+		assert.deepStrictEqual(sanitizeProfiles('invalid'), []);
+	});
+
+	test('プラットフォームで絞り込む', () => {
+		assert.deepStrictEqual(filterProfilesForPlatform(profiles, 'linux').map(p => p.name), ['Dolphin', 'Everywhere']);
+		assert.deepStrictEqual(filterProfilesForPlatform(profiles, 'darwin').map(p => p.name), ['Everywhere']);
+	});
+
+	test('名前で探す', () => {
+		assert.strictEqual(findProfile(profiles, 'Dolphin')?.name, 'Dolphin');
+		assert.strictEqual(findProfile(profiles, 'Nautilus'), undefined);
+	});
+
+	test('ファイル・フォルダに応じたテンプレートを選択する', () => {
+		const dolphin = findProfile(profiles, 'Dolphin')!;
+		assert.strictEqual(selectProfileCommand(dolphin, true), 'dolphin --select ${path}');
+		assert.strictEqual(selectProfileCommand(dolphin, false), 'dolphin ${path}');
+		const tc = findProfile(profiles, 'Total Commander')!;
+		assert.strictEqual(selectProfileCommand(tc, true), 'tc.exe /O /T "${dir}"');
+	});
+});
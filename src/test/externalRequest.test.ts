@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { parseExternalRequest } from '../externalRequest';
+
+suite('externalRequest', () => {
+	test('パスとプロファイルを取得する', () => {
+		assert.deepStrictEqual(
+			parseExternalRequest('/open', 'path=%5C%5Cserver%5Cdrops%5Cbuild&profile=tc'),
+			{ command: 'open', text: '\\\\server\\drops\\build', profile: 'tc' }
+		);
+		assert.deepStrictEqual(parseExternalRequest('/Reveal/', 'path=/var/log'), { command: 'reveal', text: '/var/log' });
+	});
+
+	test('行・列の指定をパスに付加する', () => {
+		assert.strictEqual(parseExternalRequest('/open', 'path=/src/a.ts&line=42&column=7')?.text, '/src/a.ts:42:7');
+		assert.strictEqual(parseExternalRequest('/open', 'path=/src/a.ts&line=42&column=x')?.text, '/src/a.ts:42');
+		assert.strictEqual(parseExternalRequest('/open', 'path=/src/a.ts&line=0')?.text, '/src/a.ts');
+		assert.strictEqual(parseExternalRequest('/reveal', 'path=/src/a.ts&line=42')?.text, '/src/a.ts');
+	});
+
+	test('不正なリンクを拒否する', () => {
+		assert.strictEqual(parseExternalRequest('/delete', 'path=/tmp'), undefined);
+		assert.strictEqual(parseExternalRequest('/open', ''), undefined);
+		assert.strictEqual(parseExternalRequest('/open', 'path=%20'), undefined);
+		assert.strictEqual(parseExternalRequest('/open', 'path=/a%0A/b'), undefined);
+	});
+});
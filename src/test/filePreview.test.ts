@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { countNewlines, formatPreviewQuery, parsePreviewQuery, readByteRange, readHeadLines, readTailLines } from '../filePreview';
+
+suite('filePreview', () => {
+	let dir: string;
+	let logFile: string;
+	const lines = Array.from({ length: 20000 }, (_, i) => `line ${i + 1}`);
+
+	suiteSetup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'open-in-explorer-preview-'));
+		logFile = path.join(dir, 'app.log');
+		fs.writeFileSync(logFile, lines.join('\n') + '\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('先頭のN行を読み込む', async () => {
+		const chunk = await readHeadLines(logFile, 3);
+		assert.strictEqual(chunk.text, 'line 1\nline 2\nline 3\n');
+		assert.strictEqual(chunk.start, 0);
+	});
+
+	test('チャンクをまたいで末尾のN行を読み込む', async () => {
+		const chunk = await readTailLines(logFile, 15000);
+		assert.strictEqual(chunk.text, lines.slice(-15000).join('\n') + '\n');
+		assert.strictEqual(chunk.end, chunk.size);
+	});
+
+	test('末尾に改行のないファイルの末尾を読み込む', async () => {
+		const file = path.join(dir, 'no-eol.txt');
+		fs.writeFileSync(file, 'a\nb\nc');
+		assert.strictEqual((await readTailLines(file, 2)).text, 'b\nc');
+		assert.strictEqual((await readTailLines(file, 10)).text, 'a\nb\nc');
+	});
+
+	test('バイト範囲を読み込む', async () => {
+		const chunk = await readByteRange(logFile, 7, 13);
+		assert.strictEqual(chunk.text, 'line 2');
+	});
+
+	test('文字コードを指定してデコードする', async () => {
+		const file = path.join(dir, 'sjis.txt');
+		fs.writeFileSync(file, Buffer.from([0x82, 0xA0, 0x0A, 0x82, 0xA2, 0x0A]));
+		assert.strictEqual((await readTailLines(file, 1, 'shift_jis')).text, 'い\n');
+	});
+
+	test('プレビューの指定をクエリ文字列に変換する', () => {
+		const query = parsePreviewQuery(formatPreviewQuery({ mode: 'range', lines: 100, start: 10, end: 20 }), 1000);
+		assert.deepStrictEqual(query, { mode: 'range', lines: 100, start: 10, end: 20, encoding: undefined });
+		assert.strictEqual(parsePreviewQuery('lines=abc', 1000).lines, 1000);
+		assert.strictEqual(parsePreviewQuery('', 1000).mode, 'tail');
+	});
+
+	test('改行の数を数える', () => {
+		assert.strictEqual(countNewlines(Buffer.from('a\nb\n')), 2);
+		// 《（U+300A）の下位バイトは0x0Aだが改行ではない
+		assert.strictEqual(countNewlines(Buffer.from('\u300A\n', 'utf16le'), 'utf-16le'), 1);
+	});
+
+	test('UTF-16の先頭・末尾のN行を文字単位で読み込む', async () => {
+		const text = 'line1\n\u300Aline2\nline3\n';
+		const le = path.join(dir, 'utf16le.txt');
+		fs.writeFileSync(le, Buffer.from(text, 'utf16le'));
+		assert.strictEqual((await readHeadLines(le, 1, 'utf-16le')).text, 'line1\n');
+		assert.strictEqual((await readHeadLines(le, 2, 'utf-16le')).text, 'line1\n\u300Aline2\n');
+		assert.strictEqual((await readTailLines(le, 1, 'utf-16le')).text, 'line3\n');
+		assert.strictEqual((await readTailLines(le, 2, 'utf-16le')).text, '\u300Aline2\nline3\n');
+
+		const be = path.join(dir, 'utf16be.txt');
+		fs.writeFileSync(be, Buffer.from(text, 'utf16le').swap16());
+		assert.strictEqual((await readHeadLines(be, 1, 'utf-16be')).text, 'line1\n');
+		assert.strictEqual((await readTailLines(be, 1, 'utf-16be')).text, 'line3\n');
+		assert.strictEqual((await readByteRange(be, 0, undefined, 'utf-16be')).newlines, 3);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { DEFAULT_RULES, FileRule, findMatchingRule, globToRegExp, sanitizeRules } from '../fileRules';
+import { FileCategory, FileTypeInfo } from '../fileType';
+
+suite('fileRules', () => {
+	const type = (category: FileCategory, mimeType: string) => async (): Promise<FileTypeInfo> =>
+		({ category, mimeType, description: mimeType, source: 'signature' });
+	const text = type('text', 'text/plain');
+	const binary = type('binary', 'application/octet-stream');
+
+	test('globパターンを正規表現に変換する', () => {
+		assert.ok(globToRegExp('*.log').test('app.log'));
+		assert.ok(!globToRegExp('*.log').test('logs/app.log'));
+		assert.ok(globToRegExp('**/dist/**').test('/home/me/project/dist/a/b.js'));
+		assert.ok(globToRegExp('*.{png,jpg}').test('a.jpg'));
+		assert.ok(globToRegExp('*.PDF', true).test('a.pdf'));
+	});
+
+	test('組み込みの規則で現在の動作を再現する', async () => {
+		const find = (p: string, fileType: () => Promise<FileTypeInfo>) => findMatchingRule(DEFAULT_RULES, { path: p, size: 10 }, fileType);
+		assert.strictEqual((await find('/tmp/Makefile', text))?.action, 'reveal');
+		assert.strictEqual((await find('/tmp/a.txt', text))?.action, 'openInVSCode');
+		assert.strictEqual((await find('/tmp/a.bin', binary))?.action, 'reveal');
+	});
+
+	test('ユーザーの規則を先に評価する', async () => {
+		const rules: FileRule[] = [
+			{ extensions: ['.log'], minSize: 1000, action: 'openDefault' },
+			{ glob: 'C:/build/**', action: 'profile', profile: 'tc' },
+			...DEFAULT_RULES
+		];
+		assert.strictEqual((await findMatchingRule(rules, { path: 'app.log', size: 5000 }, text))?.action, 'openDefault');
+		assert.strictEqual((await findMatchingRule(rules, { path: 'app.log', size: 10 }, text))?.action, 'openInVSCode');
+		assert.strictEqual((await findMatchingRule(rules, { path: 'c:\\Build\\out.txt', size: 10 }, text, true))?.profile, 'tc');
+	});
+
+	test('MIMEの分類とbinaryを照合する', async () => {
+		const rules: FileRule[] = [{ mime: 'image', action: 'openDefault' }, { mime: 'archive', action: 'profile' }, { mime: 'binary', action: 'reveal' }];
+		assert.strictEqual((await findMatchingRule(rules, { path: 'a.png', size: 1 }, type('image', 'image/png')))?.action, 'openDefault');
+		assert.strictEqual((await findMatchingRule(rules, { path: 'a.zip', size: 1 }, type('archive', 'application/zip')))?.action, 'profile');
+		assert.strictEqual((await findMatchingRule(rules, { path: 'a.exe', size: 1 }, type('executable', 'application/x-elf')))?.action, 'reveal');
+		assert.strictEqual(await findMatchingRule(rules, { path: 'a.txt', size: 1 }, text), undefined);
+	});
+
+	test('MIMEタイプは必要になるまで判定しない', async () => {
+		let calls = 0;
+		const mime = async () => { calls++; return text(); };
+		await findMatchingRule([{ extensions: ['md'], action: 'openInVSCode' }, { mime: 'text', action: 'reveal' }], { path: 'a.md', size: 1 }, mime);
+		assert.strictEqual(calls, 0);
+	});
+
+	test('動作が不正な規則を除外する', () => {
+		assert.deepStrictEqual(sanitizeRules([{ action: 'reveal' }, { action: 'explode' }, null]), [{ action: 'reveal' }]);
+		assert.deepStrictEqual(sanitizeRules(undefined), []);
+	});
+});
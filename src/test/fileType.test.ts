@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { detectFileType, detectSignature, isTextContent } from '../fileType';
+
+suite('fileType', () => {
+	const lists = { textExtensions: ['.log', 'txt', 'rs'], binaryExtensions: ['.bin'] };
+	const bytes = (...values: (number | string)[]) => Buffer.concat(values.map(v =>
+		typeof v === 'string' ? Buffer.from(v, 'latin1') : Buffer.from([v])
+	));
+
+	test('シグネチャから種類を判定する', () => {
+		assert.strictEqual(detectSignature(bytes(0x89, 'PNG', 0x0D, 0x0A, 0x1A, 0x0A))?.mimeType, 'image/png');
+		assert.strictEqual(detectSignature(bytes('%PDF-1.7'))?.category, 'document');
+		assert.strictEqual(detectSignature(bytes('RIFF', 0, 0, 0, 0, 'WEBP'))?.mimeType, 'image/webp');
+		assert.strictEqual(detectSignature(bytes(0x7F, 'ELF', 2))?.category, 'executable');
+		assert.strictEqual(detectSignature(bytes('SQLite format 3', 0))?.category, 'database');
+		assert.strictEqual(detectSignature(bytes('plain text')), undefined);
+	});
+
+	test('ZIP形式のOffice文書を判別する', () => {
+		assert.strictEqual(detectSignature(bytes('PK', 3, 4, 'xxxx[Content_Types].xmlword/document.xml'))?.description, 'Word document');
+		assert.strictEqual(detectSignature(bytes('PK', 3, 4, 'xxxxsrc/main.c'))?.mimeType, 'application/zip');
+	});
+
+	test('tarはオフセット257のシグネチャで判定する', () => {
+		const tar = Buffer.alloc(512);
+		tar.write('ustar', 257, 'latin1');
+		assert.strictEqual(detectSignature(tar)?.mimeType, 'application/x-tar');
+	});
+
+	test('拡張子より先にシグネチャを確認する', () => {
+		const info = detectFileType(bytes(0x1F, 0x8B, 8, 0), '.log', lists);
+		assert.strictEqual(info.category, 'archive');
+		assert.strictEqual(info.source, 'signature');
+	});
+
+	test('テキストの拡張子では短いシグネチャを使用しない', () => {
+		assert.strictEqual(detectFileType(bytes('MZ notes'), 'txt', lists).category, 'text');
+		assert.strictEqual(detectFileType(bytes('MZ notes'), '', lists).category, 'executable');
+	});
+
+	test('拡張子の一覧と内容から判定する', () => {
+		assert.strictEqual(detectFileType(bytes('fn main() {}'), '.RS', lists).source, 'extension');
+		assert.strictEqual(detectFileType(bytes('abc'), '.bin', lists).category, 'binary');
+		assert.strictEqual(detectFileType(bytes('key = "value"\n'), '.toml', lists).source, 'content');
+		assert.strictEqual(detectFileType(bytes(1, 2, 0, 3), '.dat', lists).category, 'binary');
+	});
+
+	test('Shift_JISのテキストは文字コードとともにテキストと判定する', () => {
+		const info = detectFileType(Buffer.from([0x82, 0xB1, 0x82, 0xF1, 0x82, 0xC9, 0x82, 0xBF, 0x82, 0xCD]), '.dat', lists);
+		assert.strictEqual(info.category, 'text');
+		assert.strictEqual(info.encoding, 'shiftjis');
+	});
+
+	test('BOM付きのUTF-16はテキストと判定する', () => {
+		assert.strictEqual(isTextContent(bytes(0xFF, 0xFE, 'a', 0, 'b', 0)), true);
+	});
+});
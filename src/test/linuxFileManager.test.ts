@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { buildShowItemsCommands, CommandRunner, detectFileManager, revealFileOnLinux, toFileUri } from '../linuxFileManager';
+
+/**
+ * 成功するコマンドを指定した偽の実行関数を作成します。
+ * @param succeeds 成功させるコマンド（コマンド名 → 標準出力）
+ * @param calls 実行したコマンドの記録先
+ */
+function fakeRunner(succeeds: { [command: string]: string }, calls: string[] = []): CommandRunner {
+	return async (command, args) => {
+		const key = command === 'which' ? `which ${args[0]}` : command;
+		calls.push(key);
+		return key in succeeds ? { success: true, output: succeeds[key] } : { success: false };
+	};
+}
+
+suite('linuxFileManager', () => {
+	test('パスをエンコードしたURIに変換する', () => {
+		assert.strictEqual(toFileUri('/home/me/a b,c.txt'), 'file:///home/me/a%20b%2Cc.txt');
+	});
+
+	test('ShowItemsのコマンドを作成する', () => {
+		const [dbusSend, gdbus] = buildShowItemsCommands('/tmp/a.txt');
+		assert.strictEqual(dbusSend.command, 'dbus-send');
+		assert.ok(dbusSend.args.includes('array:string:file:///tmp/a.txt'));
+		assert.strictEqual(gdbus.command, 'gdbus');
+		assert.ok(gdbus.args.includes("['file:///tmp/a.txt']"));
+	});
+
+	test('引用符を含むパスでもgdbusの引数が壊れない', () => {
+		assert.strictEqual(toFileUri("/home/me/John's/x (1).txt"), 'file:///home/me/John%27s/x%20%281%29.txt');
+		const [, gdbus] = buildShowItemsCommands("/home/me/John's/x.txt");
+		assert.ok(gdbus.args.includes("['file:///home/me/John%27s/x.txt']"));
+	});
+
+	test('D-Busが使用できる場合はファイルマネージャーを探さない', async () => {
+		const calls: string[] = [];
+		const result = await revealFileOnLinux('/tmp/a.txt', fakeRunner({ 'dbus-send': '' }, calls));
+		assert.deepStrictEqual(result, { kind: 'dbus' });
+		assert.deepStrictEqual(calls, ['dbus-send']);
+	});
+
+	test('dbus-sendがない場合はgdbusを使用する', async () => {
+		const result = await revealFileOnLinux('/tmp/a.txt', fakeRunner({ gdbus: '' }));
+		assert.deepStrictEqual(result, { kind: 'dbus' });
+	});
+
+	test('既定のファイルマネージャーを選択オプション付きで起動する', async () => {
+		const result = await revealFileOnLinux('/tmp/a.txt', fakeRunner({ 'xdg-mime': 'org.kde.dolphin.desktop\n' }));
+		assert.deepStrictEqual(result, {
+			kind: 'fileManager',
+			commandLine: { command: 'dolphin', args: ['--select', '/tmp/a.txt'] }
+		});
+	});
+
+	test('既定が判定できない場合はインストールされているものを探す', async () => {
+		const manager = await detectFileManager(fakeRunner({ 'xdg-mime': 'pcmanfm.desktop', 'which nemo': '/usr/bin/nemo' }));
+		assert.strictEqual(manager?.command, 'nemo');
+	});
+
+	test('どの方法も使用できない場合はnoneを返す', async () => {
+		const result = await revealFileOnLinux('/tmp/a.txt', fakeRunner({}));
+		assert.deepStrictEqual(result, { kind: 'none' });
+	});
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { getActionMemoryKey, getAvailableActions, orderActions, PATH_ACTIONS } from '../pathActions';
+
+suite('pathActions', () => {
+	test('フォルダではVS Codeで開く操作を除外する', () => {
+		assert.deepStrictEqual(getAvailableActions(true), PATH_ACTIONS);
+		assert.ok(!getAvailableActions(false).includes('openInVSCode'));
+	});
+
+	test('ファイルの種類ごとのキーを取得する', () => {
+		assert.strictEqual(getActionMemoryKey('/var/log/App.LOG', true), '.log');
+		assert.strictEqual(getActionMemoryKey('C:\\work\\archive.tar.gz', true), '.gz');
+		assert.strictEqual(getActionMemoryKey('/home/me/.bashrc', true), '<none>');
+		assert.strictEqual(getActionMemoryKey('/home/me/Makefile', true), '<none>');
+		assert.strictEqual(getActionMemoryKey('/home/me/project.v2', false), '<folder>');
+	});
+
+	test('最後に使用した操作を先頭に移動する', () => {
+		assert.deepStrictEqual(orderActions(['reveal', 'copyUri', 'openDefault'], 'openDefault'), ['openDefault', 'reveal', 'copyUri']);
+		assert.deepStrictEqual(orderActions(['reveal', 'copyUri'], 'openInVSCode'), ['reveal', 'copyUri']);
+		assert.deepStrictEqual(orderActions(['reveal', 'copyUri']), ['reveal', 'copyUri']);
+	});
+});
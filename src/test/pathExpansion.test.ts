@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { ExpansionContext, expandPathVariables } from '../pathExpansion';
+
+suite('pathExpansion', () => {
+	const posix: ExpansionContext = {
+		env: { HOME: '/home/me', TEMP: '/tmp' },
+		homeDir: '/home/me',
+		platform: 'linux',
+		workspaceFolder: '/ws/app',
+		workspaceFolders: [{ name: 'app', path: '/ws/app' }, { name: 'lib', path: '/ws/lib' }]
+	};
+	const windows: ExpansionContext = {
+		env: { USERPROFILE: 'C:\\Users\\me', Temp: 'C:\\Temp' },
+		homeDir: 'C:\\Users\\me',
+		platform: 'win32'
+	};
+
+	test('POSIX形式の環境変数を展開する', () => {
+		assert.deepStrictEqual(expandPathVariables('$HOME/.config/app', posix), { path: '/home/me/.config/app' });
+		assert.deepStrictEqual(expandPathVariables('${HOME}/.config', posix), { path: '/home/me/.config' });
+	});
+
+	test('Windows形式の環境変数を大文字小文字を区別せずに展開する', () => {
+		assert.deepStrictEqual(
+			expandPathVariables('%userprofile%\\AppData\\Local', windows),
+			{ path: 'C:\\Users\\me\\AppData\\Local' }
+		);
+		assert.deepStrictEqual(expandPathVariables('${env:TEMP}\\x.log', windows), { path: 'C:\\Temp\\x.log' });
+	});
+
+	test('VS Code形式の変数を展開する', () => {
+		assert.deepStrictEqual(expandPathVariables('${workspaceFolder}/src', posix), { path: '/ws/app/src' });
+		assert.deepStrictEqual(expandPathVariables('${workspaceFolder:lib}/x', posix), { path: '/ws/lib/x' });
+		assert.deepStrictEqual(expandPathVariables('${userHome}/x', posix), { path: '/home/me/x' });
+	});
+
+	test('先頭のチルダをホームフォルダに展開する', () => {
+		assert.deepStrictEqual(expandPathVariables('~/projects', posix), { path: '/home/me/projects' });
+		assert.deepStrictEqual(expandPathVariables('~', posix), { path: '/home/me' });
+		assert.deepStrictEqual(expandPathVariables('~user/x', posix), { path: '~user/x' });
+	});
+
+	test('定義されていない変数を報告する', () => {
+		assert.deepStrictEqual(expandPathVariables('$NOPE/x', posix), { undefinedVariable: '$NOPE' });
+		assert.deepStrictEqual(expandPathVariables('%NOPE%\\x', windows), { undefinedVariable: '%NOPE%' });
+		assert.deepStrictEqual(expandPathVariables('${workspaceFolder:none}', posix), { undefinedVariable: '${workspaceFolder:none}' });
+	});
+
+	test('Windowsでは未定義の $VAR をそのまま残す', () => {
+		assert.deepStrictEqual(expandPathVariables('C:\\$Recycle.Bin', windows), { path: 'C:\\$Recycle.Bin' });
+	});
+});
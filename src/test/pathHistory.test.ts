@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { addHistoryEntry, clearHistory, HistoryEntry, sanitizeHistory, sortHistory, togglePinned } from '../pathHistory';
+
+suite('pathHistory', () => {
+	const entry = (input: string, timestamp: number, pinned?: boolean): HistoryEntry =>
+		({ input, target: input, action: 'reveal', timestamp, pinned });
+
+	test('新しい項目を先頭に追加し、同じパスは置き換える', () => {
+		let history: HistoryEntry[] = [];
+		history = addHistoryEntry(history, entry('/a', 1), 10);
+		history = addHistoryEntry(history, entry('/b', 2), 10);
+		history = addHistoryEntry(history, entry('/a', 3), 10);
+		assert.deepStrictEqual(history.map(item => [item.input, item.timestamp]), [['/a', 3], ['/b', 2]]);
+	});
+
+	test('Windowsでは大文字と小文字を区別せずに置き換える', () => {
+		const history = addHistoryEntry([entry('C:\\Work', 1)], entry('c:\\work', 2), 10, true);
+		assert.deepStrictEqual(history.map(item => item.input), ['c:\\work']);
+	});
+
+	test('上限を超えた古い項目を削除し、ピン留めは残す', () => {
+		let history = [entry('/pinned', 0, true), entry('/b', 2), entry('/a', 1)];
+		history = addHistoryEntry(history, entry('/c', 3), 2);
+		assert.deepStrictEqual(history.map(item => item.input), ['/pinned', '/c', '/b']);
+		assert.deepStrictEqual(addHistoryEntry(history, entry('/d', 4), 0).map(item => item.input), ['/pinned']);
+	});
+
+	test('実際に開いたパスで重複を判定する', () => {
+		const link = { input: '/link', target: '/real', action: 'reveal', timestamp: 1 };
+		const history = addHistoryEntry([link], { input: '/real', target: '/real', action: 'openInVSCode', timestamp: 2 }, 10);
+		assert.deepStrictEqual(history.map(item => [item.input, item.action]), [['/real', 'openInVSCode']]);
+	});
+
+	test('置き換えた項目のピン留めを引き継ぐ', () => {
+		const history = addHistoryEntry([entry('/a', 1, true)], entry('/a', 5), 10);
+		assert.deepStrictEqual(history, [{ ...entry('/a', 5), pinned: true }]);
+	});
+
+	test('ピン留めの切り替えと消去', () => {
+		const history = togglePinned([entry('/a', 2), entry('/b', 1)], '/b');
+		assert.deepStrictEqual(history.map(item => item.input), ['/b', '/a']);
+		assert.deepStrictEqual(clearHistory(history).map(item => item.input), ['/b']);
+	});
+
+	test('不正な項目を除外して並べ替える', () => {
+		const history = sanitizeHistory([entry('/a', 1), { input: '/x' }, null, entry('/b', 2)]);
+		assert.deepStrictEqual(sortHistory(history).map(item => item.input), ['/b', '/a']);
+		assert.deepStrictEqual(sanitizeHistory('broken'), []);
+	});
+});
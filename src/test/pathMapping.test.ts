@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { applyPathMappings, getMappingLabel, PathMapping } from '../pathMapping';
+
+suite('pathMapping', () => {
+	const docker: PathMapping = { name: 'docker', from: '/app', to: '/home/me/project' };
+	const agent: PathMapping = { from: '/builds/agent\\d+/work/', to: 'D:\\src\\', regex: true };
+
+	test('パス要素の境界でプレフィックスを書き換える', () => {
+		assert.deepStrictEqual(applyPathMappings('/app/src/a.ts', [docker]).map(c => c.path), ['/home/me/project/src/a.ts']);
+		assert.deepStrictEqual(applyPathMappings('/app', [docker]).map(c => c.path), ['/home/me/project']);
+		assert.deepStrictEqual(applyPathMappings('/apple/a.ts', [docker]), []);
+	});
+
+	test('区切り文字の重複や欠落を防ぐ', () => {
+		const mapping: PathMapping = { from: '/app/', to: 'C:\\work' };
+		assert.deepStrictEqual(applyPathMappings('/app/x', [mapping]).map(c => c.path), ['C:\\work/x']);
+		const trailing: PathMapping = { from: '/app', to: '/srv/' };
+		assert.deepStrictEqual(applyPathMappings('/app/x', [trailing]).map(c => c.path), ['/srv/x']);
+	});
+
+	test('正規表現で書き換える', () => {
+		assert.deepStrictEqual(applyPathMappings('/builds/agent3/work/a/b.cs', [agent]).map(c => c.path), ['D:\\src\\a/b.cs']);
+		const groups: PathMapping = { from: '^/repos/([^/]+)/', to: '/home/me/$1/', regex: true };
+		assert.deepStrictEqual(applyPathMappings('/repos/lib/x', [groups]).map(c => c.path), ['/home/me/lib/x']);
+	});
+
+	test('不正な正規表現は無視する', () => {
+		assert.deepStrictEqual(applyPathMappings('/a', [{ from: '(', to: '/b', regex: true }]), []);
+	});
+
+	test('設定の順序で候補を返す', () => {
+		const second: PathMapping = { from: '/app/src', to: '/opt/src' };
+		assert.deepStrictEqual(applyPathMappings('/app/src/a', [docker, second]).map(c => c.path), [
+			'/home/me/project/src/a',
+			'/opt/src/a'
+		]);
+	});
+
+	test('ワークスペースフォルダが一致する場合のみ適用する', () => {
+		const scoped: PathMapping = { ...docker, workspaceFolder: 'web' };
+		assert.strictEqual(applyPathMappings('/app/a', [scoped], 'api').length, 0);
+		assert.strictEqual(applyPathMappings('/app/a', [scoped], 'web').length, 1);
+	});
+
+	test('大文字と小文字を区別しない比較に対応する', () => {
+		const mapping: PathMapping = { from: 'C:\\Agent', to: 'D:\\local' };
+		assert.deepStrictEqual(applyPathMappings('c:\\agent\\x', [mapping], undefined, true).map(c => c.path), ['D:\\local\\x']);
+	});
+
+	test('表示用の名前を返す', () => {
+		assert.strictEqual(getMappingLabel(docker), 'docker');
+		assert.strictEqual(getMappingLabel({ from: '/a', to: '/b' }), '/a → /b');
+	});
+});
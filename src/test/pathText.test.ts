@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { findPathAtPosition, findPathCandidates, parsePositionSuffix, splitPathList } from '../pathText';
+
+suite('pathText: findPathAtPosition', () => {
+	test('空白区切りのトークンを検出する', () => {
+		const line = 'see /var/log/syslog for details';
+		const match = findPathAtPosition(line, 8);
+		assert.deepStrictEqual(match, { text: '/var/log/syslog', start: 4, end: 19 });
+	});
+
+	test('末尾の句読点を取り除く', () => {
+		assert.strictEqual(findPathAtPosition('Open /etc/hosts.', 7)?.text, '/etc/hosts');
+		assert.strictEqual(findPathAtPosition('C:\\x\\y.txt, then', 3)?.text, 'C:\\x\\y.txt');
+		assert.strictEqual(findPathAtPosition('(see /tmp/a.log)', 8)?.text, '/tmp/a.log');
+	});
+
+	test('対応の取れた括弧はパスの一部とみなす', () => {
+		const line = 'C:\\Program(x86)\\app.exe';
+		assert.strictEqual(findPathAtPosition(line, 4)?.text, line);
+	});
+
+	test('引用符で囲まれた空白を含むパスを検出する', () => {
+		const line = 'path = "C:\\Program Files\\App\\app.exe";';
+		assert.strictEqual(findPathAtPosition(line, 20)?.text, 'C:\\Program Files\\App\\app.exe');
+	});
+
+	test('バッククォートで囲まれたパスを検出する', () => {
+		const line = 'Edit `/home/me/my file.txt` first';
+		assert.strictEqual(findPathAtPosition(line, 10)?.text, '/home/me/my file.txt');
+	});
+
+	test('単語中のアポストロフィは引用符とみなさない', () => {
+		const line = "it's in '/opt/my app/bin'";
+		assert.strictEqual(findPathAtPosition(line, 15)?.text, '/opt/my app/bin');
+	});
+
+	test('マークダウンリンクのリンク先を検出する', () => {
+		const line = 'See [the config](/etc/app/config.yml "Config") here';
+		assert.strictEqual(findPathAtPosition(line, 6)?.text, '/etc/app/config.yml');
+	});
+
+	test('空白上では何も検出しない', () => {
+		assert.strictEqual(findPathAtPosition('a   b', 2), null);
+		assert.strictEqual(findPathAtPosition('', 0), null);
+	});
+});
+
+suite('pathText: findPathCandidates', () => {
+	test('ドライブパス・UNCパス・POSIXパスを検出する', () => {
+		const line = 'copied C:\\logs\\a.txt to \\\\srv\\share\\b.txt and /var/log/c.log.';
+		assert.deepStrictEqual(findPathCandidates(line).map(m => m.text), [
+			'C:\\logs\\a.txt',
+			'\\\\srv\\share\\b.txt',
+			'/var/log/c.log'
+		]);
+	});
+
+	test('スラッシュ区切りのドライブパスを検出する', () => {
+		assert.deepStrictEqual(findPathCandidates('open C:/x/y.txt now').map(m => m.text), ['C:/x/y.txt']);
+	});
+
+	test('URLや日付、コメント記号はパスとみなさない', () => {
+		const line = '// see https://example.com/a/b on 2024/01/02 and/or later';
+		assert.deepStrictEqual(findPathCandidates(line), []);
+	});
+
+	test('検出位置を返す', () => {
+		const line = 'at (/tmp/x)';
+		assert.deepStrictEqual(findPathCandidates(line), [{ text: '/tmp/x', start: 4, end: 10 }]);
+	});
+});
+
+suite('pathText: parsePositionSuffix', () => {
+	test('path:line:column 形式を解析する', () => {
+		assert.deepStrictEqual(parsePositionSuffix('src/foo.ts:42:7'), {
+			path: 'src/foo.ts',
+			position: { line: 42, column: 7 }
+		});
+		assert.deepStrictEqual(parsePositionSuffix('/var/log/app.log:10'), {
+			path: '/var/log/app.log',
+			position: { line: 10, column: undefined }
+		});
+	});
+
+	test('path(line,column) 形式を解析する', () => {
+		assert.deepStrictEqual(parsePositionSuffix('C:\\x\\y.cs(42,7)'), {
+			path: 'C:\\x\\y.cs',
+			position: { line: 42, column: 7 }
+		});
+		assert.deepStrictEqual(parsePositionSuffix('C:\\x\\y.cs(42)'), {
+			path: 'C:\\x\\y.cs',
+			position: { line: 42, column: undefined }
+		});
+	});
+
+	test('grep形式の末尾のコロンを許容する', () => {
+		assert.deepStrictEqual(parsePositionSuffix('/a/b.c:3:'), {
+			path: '/a/b.c',
+			position: { line: 3, column: undefined }
+		});
+	});
+
+	test('位置指定がない場合はそのまま返す', () => {
+		assert.deepStrictEqual(parsePositionSuffix('C:\\x\\y.cs'), { path: 'C:\\x\\y.cs' });
+		assert.deepStrictEqual(parsePositionSuffix('/tmp/a(1).txt'), { path: '/tmp/a(1).txt' });
+		assert.deepStrictEqual(parsePositionSuffix('C:\\Users\\me\\New folder (2)'), { path: 'C:\\Users\\me\\New folder (2)' });
+		assert.deepStrictEqual(parsePositionSuffix('/srv/dir(2)'), { path: '/srv/dir(2)' });
+		assert.deepStrictEqual(parsePositionSuffix('/srv/a.txt (2)'), { path: '/srv/a.txt (2)' });
+		assert.deepStrictEqual(parsePositionSuffix('/tmp/a.txt:0'), { path: '/tmp/a.txt:0' });
+	});
+});
+
+suite('pathText: splitPathList', () => {
+	test('空行を除いて1行ずつ分割する', () => {
+		assert.deepStrictEqual(splitPathList('/a/b\r\n\n  /c/d  \n\t\n'), ['/a/b', '/c/d']);
+	});
+
+	test('重複したパスを取り除く', () => {
+		assert.deepStrictEqual(splitPathList('/a\n/b\n/a'), ['/a', '/b']);
+	});
+});
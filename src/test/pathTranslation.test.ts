@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { sanitizePathText, toPosixPath, toWindowsPath, translatePath } from '../pathTranslation';
+
+suite('pathTranslation', () => {
+	test('WSLのマウントパスをWindowsのドライブパスに変換する', () => {
+		assert.strictEqual(toWindowsPath('/mnt/c/Users/me/a.txt', { platform: 'win32' }), 'C:\\Users\\me\\a.txt');
+		assert.strictEqual(toWindowsPath('/mnt/d', { platform: 'win32' }), 'D:\\');
+		assert.strictEqual(toWindowsPath('/win/e/x', { platform: 'win32', wslMountRoot: '/win' }), 'E:\\x');
+	});
+
+	test('スラッシュ区切りのWindowsパスをバックスラッシュ区切りに変換する', () => {
+		assert.strictEqual(toWindowsPath('C:/x/y', { platform: 'win32' }), 'C:\\x\\y');
+		assert.strictEqual(toWindowsPath('//server/share/a', { platform: 'win32' }), '\\\\server\\share\\a');
+	});
+
+	test('LinuxのパスをWSLのUNCパスに変換する', () => {
+		const options = { platform: 'win32', wslDistribution: 'Ubuntu' };
+		assert.strictEqual(toWindowsPath('/home/me/x', options), '\\\\wsl.localhost\\Ubuntu\\home\\me\\x');
+		assert.strictEqual(toWindowsPath('/home/me/x', { platform: 'win32' }), '/home/me/x');
+	});
+
+	test('WSLのUNCパスをLinuxのパスに変換する', () => {
+		assert.strictEqual(toPosixPath('\\\\wsl$\\Ubuntu\\home\\me', { platform: 'linux' }), '/home/me');
+		assert.strictEqual(toPosixPath('\\\\wsl.localhost\\Ubuntu-22.04\\etc\\hosts', { platform: 'linux' }), '/etc/hosts');
+		assert.strictEqual(toPosixPath('\\\\wsl$\\Ubuntu', { platform: 'linux' }), '/');
+	});
+
+	test('WindowsのドライブパスをWSLのマウントパスに変換する', () => {
+		assert.strictEqual(toPosixPath('C:\\Users\\me', { platform: 'linux' }), '/mnt/c/Users/me');
+		assert.strictEqual(toPosixPath('c:/x/y', { platform: 'linux' }), '/mnt/c/x/y');
+	});
+
+	test('変換対象でないパスはそのまま返す', () => {
+		assert.strictEqual(toPosixPath('/var/log', { platform: 'linux' }), '/var/log');
+		assert.strictEqual(toWindowsPath('\\\\srv\\share', { platform: 'win32' }), '\\\\srv\\share');
+		assert.strictEqual(translatePath('C:\\x', { platform: 'darwin' }), 'C:\\x');
+	});
+
+	test('プラットフォームに応じて変換する', () => {
+		assert.strictEqual(translatePath('/mnt/c/x', { platform: 'win32' }), 'C:\\x');
+		assert.strictEqual(translatePath('C:\\x', { platform: 'linux' }), '/mnt/c/x');
+	});
+
+	test('Windowsではサニタイズ後にWSL・Linuxパスを変換できる', () => {
+		const win32 = (text: string, wslDistribution?: string) =>
+			translatePath(sanitizePathText(text, 'win32'), { platform: 'win32', wslDistribution });
+		assert.strictEqual(win32(' "/mnt/c/Users/me/../me/a.txt" '), 'C:\\Users\\me\\a.txt');
+		assert.strictEqual(win32('/home/me/x', 'Ubuntu'), '\\\\wsl.localhost\\Ubuntu\\home\\me\\x');
+		assert.strictEqual(win32('//server/share/x'), '\\\\server\\share\\x');
+		assert.strictEqual(win32('C:/a/../b'), 'C:\\b');
+	});
+
+	test('URI形式はサニタイズで正規化しない', () => {
+		assert.strictEqual(sanitizePathText('file:///c:/a/../b', 'win32'), 'file:///c:/a/../b');
+		assert.strictEqual(sanitizePathText('/a/./b/../c', 'linux'), '/a/c');
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { launchProcess } from '../processLauncher';
+
+suite('processLauncher', () => {
+	test('シェルを介さずに引数をそのまま渡す', async () => {
+		const result = await launchProcess(process.execPath, ['-e', 'process.stdout.write(process.argv[1])', 'a b; $(echo x)'], { timeoutMs: 10000 });
+		assert.strictEqual(result.success, true);
+		assert.strictEqual(result.output, 'a b; $(echo x)');
+	});
+
+	test('タイムアウトした場合はプロセスを終了する', async () => {
+		const result = await launchProcess(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], { timeoutMs: 200 });
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.timedOut, true);
+	});
+
+	test('切り離した場合も待機時間内の終了コードで成否を判定する', async () => {
+		const failed = await launchProcess(process.execPath, ['-e', 'process.exit(3)'], { detached: true, exitWaitMs: 10000 });
+		assert.deepStrictEqual(failed, { success: false, exitCode: 3 });
+		const running = await launchProcess(process.execPath, ['-e', 'setTimeout(() => {}, 1000)'], { detached: true, exitWaitMs: 100 });
+		assert.deepStrictEqual(running, { success: true });
+	});
+
+	test('存在しないコマンドは失敗を返す', async () => {
+		const result = await launchProcess('open-in-explorer-no-such-command', []);
+		assert.strictEqual(result.success, false);
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { BaseDirectory, buildRelativeCandidates, hasParentSegments, isPathInside } from '../relativePath';
+
+suite('relativePath', () => {
+	const documentBase: BaseDirectory = { directory: '/ws/app/src', kind: 'document', label: 'src' };
+	const workspaceBase: BaseDirectory = { directory: '/ws/app', kind: 'workspace', label: 'app' };
+	const searchBase: BaseDirectory = { directory: '/opt/shared', kind: 'search', label: '/opt/shared' };
+
+	test('親フォルダへの参照を判定する', () => {
+		assert.strictEqual(hasParentSegments('../a'), true);
+		assert.strictEqual(hasParentSegments('a\\..\\b'), true);
+		assert.strictEqual(hasParentSegments('a/..b/c'), false);
+	});
+
+	test('フォルダの内側にあるかを判定する', () => {
+		assert.strictEqual(isPathInside('/ws/app/a', '/ws/app'), true);
+		assert.strictEqual(isPathInside('/ws/app', '/ws/app'), true);
+		assert.strictEqual(isPathInside('/ws/application', '/ws/app'), false);
+		assert.strictEqual(isPathInside('/WS/App/a', '/ws/app'), false);
+		assert.strictEqual(isPathInside('/WS/App/a', '/ws/app', true), true);
+	});
+
+	test('基準フォルダの順序で候補を返す', () => {
+		const candidates = buildRelativeCandidates('lib/x.ts', [documentBase, workspaceBase, searchBase], ['/ws/app']);
+		assert.deepStrictEqual(candidates.map(c => c.path), [
+			'/ws/app/src/lib/x.ts',
+			'/ws/app/lib/x.ts',
+			'/opt/shared/lib/x.ts'
+		]);
+	});
+
+	test('同じパスに解決される候補は1つにまとめる', () => {
+		const candidates = buildRelativeCandidates('x', [workspaceBase, workspaceBase], ['/ws/app']);
+		assert.strictEqual(candidates.length, 1);
+	});
+
+	test('親フォルダへの参照はワークスペースの内側に限る', () => {
+		const candidates = buildRelativeCandidates('../lib/x.ts', [documentBase, workspaceBase, searchBase], ['/ws/app']);
+		assert.deepStrictEqual(candidates.map(c => c.path), ['/ws/app/lib/x.ts']);
+	});
+});
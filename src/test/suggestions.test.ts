@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { editDistance, findSimilarNames } from '../suggestions';
+
+suite('suggestions', () => {
+	test('編集距離を計算する', () => {
+		assert.strictEqual(editDistance('kitten', 'sitting'), 3);
+		assert.strictEqual(editDistance('', 'abc'), 3);
+		assert.strictEqual(editDistance('same', 'same'), 0);
+	});
+
+	test('似ている名前を近い順に返す', () => {
+		const names = ['report-2024.pdf', 'Report-2023.pdf', 'notes.txt', 'report-2024.PDF'];
+		assert.deepStrictEqual(findSimilarNames('report-2023.pdf', names), [
+			'Report-2023.pdf',
+			'report-2024.pdf',
+			'report-2024.PDF'
+		]);
+	});
+
+	test('大文字と小文字の違いのみの名前を優先する', () => {
+		assert.deepStrictEqual(findSimilarNames('readme.md', ['README.md', 'readme.mdx']), ['README.md', 'readme.mdx']);
+	});
+
+	test('似ていない名前は返さない', () => {
+		assert.deepStrictEqual(findSimilarNames('src', ['build', 'docs']), []);
+	});
+
+	test('返す数を制限する', () => {
+		assert.strictEqual(findSimilarNames('a1', ['a2', 'a3', 'a4'], 2).length, 2);
+	});
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveSymlinkChain } from '../symlinkResolver';
+
+suite('symlinkResolver', () => {
+	let dir: string;
+
+	suiteSetup(() => {
+		dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'open-in-explorer-symlink-')));
+		fs.mkdirSync(path.join(dir, 'lib'));
+		fs.writeFileSync(path.join(dir, 'lib', 'x.txt'), 'x');
+		fs.mkdirSync(path.join(dir, 'app'));
+		// app/current -> ../lib（相対パス）、chain -> app/current（連鎖）
+		fs.symlinkSync('../lib', path.join(dir, 'app', 'current'));
+		fs.symlinkSync(path.join(dir, 'app', 'current'), path.join(dir, 'chain'));
+		fs.symlinkSync('missing.txt', path.join(dir, 'dangling'));
+		fs.symlinkSync('loop-b', path.join(dir, 'loop-a'));
+		fs.symlinkSync('loop-a', path.join(dir, 'loop-b'));
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('リンクを含まないパスはそのまま返す', async () => {
+		const file = path.join(dir, 'lib', 'x.txt');
+		assert.deepStrictEqual(await resolveSymlinkChain(file), { status: 'ok', hops: [], finalPath: file });
+	});
+
+	test('相対パスの参照先をリンクのフォルダを基準に解決する', async () => {
+		const chain = await resolveSymlinkChain(path.join(dir, 'app', 'current', 'x.txt'));
+		assert.strictEqual(chain.status, 'ok');
+		assert.strictEqual(chain.finalPath, path.join(dir, 'lib', 'x.txt'));
+		assert.deepStrictEqual(chain.hops, [
+			{ linkPath: path.join(dir, 'app', 'current'), target: '../lib', resolved: path.join(dir, 'lib') }
+		]);
+	});
+
+	test('リンクの連鎖をすべて記録する', async () => {
+		const chain = await resolveSymlinkChain(path.join(dir, 'chain', 'x.txt'));
+		assert.strictEqual(chain.finalPath, path.join(dir, 'lib', 'x.txt'));
+		assert.deepStrictEqual(chain.hops.map(hop => hop.linkPath), [path.join(dir, 'chain'), path.join(dir, 'app', 'current')]);
+	});
+
+	test('参照先が存在しないリンクを検出する', async () => {
+		const chain = await resolveSymlinkChain(path.join(dir, 'dangling'));
+		assert.strictEqual(chain.status, 'dangling');
+		assert.strictEqual(chain.finalPath, path.join(dir, 'missing.txt'));
+	});
+
+	test('循環するリンクを検出する', async () => {
+		const chain = await resolveSymlinkChain(path.join(dir, 'loop-a'));
+		assert.strictEqual(chain.status, 'loop');
+	});
+
+	test('存在しない要素以降はそのままつなげる', async () => {
+		const chain = await resolveSymlinkChain(path.join(dir, 'chain', 'nope', 'y.txt'));
+		assert.strictEqual(chain.status, 'ok');
+		assert.strictEqual(chain.finalPath, path.join(dir, 'lib', 'nope', 'y.txt'));
+	});
+});
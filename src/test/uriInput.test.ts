@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { convertUriInput, isNetworkInput, isUriInput, parseGvfsShareName, parseMacMountOutput, parseProcMounts } from '../uriInput';
+
+suite('uriInput', () => {
+	const mounts = [{ source: '//srv/Docs', target: '/mnt/docs' }];
+
+	test('URI形式を判定する', () => {
+		assert.strictEqual(isUriInput('file:///tmp/a'), true);
+		assert.strictEqual(isUriInput('smb://srv/share'), true);
+		assert.strictEqual(isUriInput('C://x'), false);
+		assert.strictEqual(isUriInput('/tmp/a'), false);
+	});
+
+	test('file URIをパーセントデコードしてパスにする', () => {
+		assert.deepStrictEqual(convertUriInput('file:///home/me/a%20b.txt', 'linux'), { kind: 'path', path: '/home/me/a b.txt' });
+		assert.deepStrictEqual(convertUriInput('file://localhost/etc/hosts', 'linux'), { kind: 'path', path: '/etc/hosts' });
+	});
+
+	test('file URIのドライブレターを扱う', () => {
+		assert.deepStrictEqual(convertUriInput('file:///C:/x/y', 'win32'), { kind: 'path', path: 'C:/x/y' });
+		assert.deepStrictEqual(convertUriInput('file:///c%3A/x', 'win32'), { kind: 'path', path: 'c:/x' });
+	});
+
+	test('WindowsではネットワークのURIをUNCパスにする', () => {
+		assert.deepStrictEqual(convertUriInput('smb://srv/share/a%20b/c.txt', 'win32'), { kind: 'path', path: '\\\\srv\\share\\a b\\c.txt' });
+		assert.deepStrictEqual(convertUriInput('file://srv/share/x', 'win32'), { kind: 'path', path: '\\\\srv\\share\\x' });
+	});
+
+	test('その他のプラットフォームではマウント先を探す', () => {
+		assert.deepStrictEqual(convertUriInput('smb://me@SRV/docs/x/y.pdf', 'linux', mounts), { kind: 'path', path: '/mnt/docs/x/y.pdf' });
+		assert.deepStrictEqual(convertUriInput('smb://srv/docs', 'darwin', mounts), { kind: 'path', path: '/mnt/docs' });
+		assert.deepStrictEqual(convertUriInput('smb://srv/other/x', 'linux', mounts), { kind: 'notMounted', share: '//srv/other' });
+	});
+
+	test('Windows以外ではUNCパスをマウント先に変換する', () => {
+		assert.deepStrictEqual(convertUriInput('\\\\srv\\docs\\a.txt', 'linux', mounts), { kind: 'path', path: '/mnt/docs/a.txt' });
+		assert.deepStrictEqual(convertUriInput('\\\\srv\\docs\\a.txt', 'win32', mounts), { kind: 'path', path: '\\\\srv\\docs\\a.txt' });
+		assert.deepStrictEqual(convertUriInput('\\\\wsl$\\Ubuntu\\x', 'linux', mounts), { kind: 'path', path: '\\\\wsl$\\Ubuntu\\x' });
+		assert.strictEqual(isNetworkInput('\\\\srv\\docs'), true);
+		assert.strictEqual(isNetworkInput('\\\\wsl.localhost\\Ubuntu'), false);
+	});
+
+	test('対応していないスキームを報告する', () => {
+		assert.deepStrictEqual(convertUriInput('https://example.com/a', 'linux'), { kind: 'unsupportedScheme', scheme: 'https' });
+	});
+
+	test('URI形式でない入力はそのまま返す', () => {
+		assert.deepStrictEqual(convertUriInput('C:\\x', 'win32'), { kind: 'path', path: 'C:\\x' });
+	});
+
+	test('マウント情報を解析する', () => {
+		const procMounts = '/dev/sda1 / ext4 rw 0 0\n//srv/my\\040share /mnt/my\\040share cifs rw 0 0\n';
+		assert.deepStrictEqual(parseProcMounts(procMounts), [{ source: '//srv/my share', target: '/mnt/my share' }]);
+		const macOutput = '/dev/disk1s1 on / (apfs, local)\n//me@srv/docs on /Volumes/docs (smbfs, nodev, nosuid, mounted by me)\n';
+		assert.deepStrictEqual(parseMacMountOutput(macOutput), [{ source: '//me@srv/docs', target: '/Volumes/docs' }]);
+		assert.strictEqual(parseGvfsShareName('smb-share:server=srv,share=docs,user=me'), '//srv/docs');
+		assert.strictEqual(parseGvfsShareName('sftp:host=srv'), null);
+	});
+});
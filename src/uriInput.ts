@@ -0,0 +1,223 @@
+/**
+ * file:// や smb:// 形式のURIを、開くことのできるパスに変換するためのユーティリティ。
+ * VS Code APIに依存しないため、単体でテスト可能です。
+ */
+
+/**
+ * マウント済みのネットワーク共有
+ */
+export interface NetworkMount {
+    source: string;   // 共有の場所（//server/share 形式）
+    target: string;   // マウント先のフォルダ
+}
+
+/**
+ * URIを変換した結果
+ */
+export type UriInputResult =
+    | { kind: 'path'; path: string }                   // 変換後のパス（URIでない場合は入力そのまま）
+    | { kind: 'unsupportedScheme'; scheme: string }    // 対応していないスキーム
+    | { kind: 'notMounted'; share: string };           // マウントされていないネットワーク共有
+
+// scheme://authority/path 形式（ドライブレターと区別するためスキームは2文字以上）
+const URI_REGEX = /^([a-zA-Z][a-zA-Z0-9+.-]+):\/\/([^/?#]*)([^?#]*)/;
+
+// UNCパス（\\server\share\path）
+const UNC_REGEX = /^\\\\([^\\]+)(?:\\(.*))?$/;
+
+// WSLのUNCパスのホスト名（パス変換で扱うためネットワーク共有とみなさない）
+const WSL_HOST_REGEX = /^wsl(?:\$|\.localhost)$/i;
+
+// gvfsのSMBマウントのフォルダ名（smb-share:server=srv,share=docs,user=me）
+const GVFS_SMB_REGEX = /^smb-share:(.*)$/;
+
+/**
+ * テキストがURI形式（scheme://...）かどうかを判定します。
+ * @param text 判定するテキスト
+ * @returns URI形式の場合はtrue
+ */
+export function isUriInput(text: string): boolean {
+    return URI_REGEX.test(text);
+}
+
+/**
+ * テキストがネットワーク上の場所（URIまたはWSL以外のUNCパス）を指すかどうかを判定します。
+ * マウント情報の取得が必要かどうかの判断に使用します。
+ * @param text 判定するテキスト
+ * @returns ネットワーク上の場所を指す可能性がある場合はtrue
+ */
+export function isNetworkInput(text: string): boolean {
+    const unc = UNC_REGEX.exec(text);
+    return isUriInput(text) || (unc !== null && !WSL_HOST_REGEX.test(unc[1]));
+}
+
+/**
+ * パーセントエンコードされた文字列をデコードします。不正なエンコードの場合はそのまま返します。
+ * @param text デコードする文字列
+ * @returns デコードされた文字列
+ */
+function safeDecode(text: string): string {
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * 共有の場所を比較用の形式（//server/share、小文字）に揃えます。
+ * ユーザー名（user@）やポート番号は取り除きます。
+ * @param source 共有の場所
+ * @returns 比較用の文字列
+ */
+function normalizeShareSource(source: string): string {
+    const match = /^[\\/]{2}(?:[^@\\/]*@)?([^\\/:]+)(?::\d+)?[\\/]([^\\/]+)/.exec(source);
+    return match ? `//${match[1]}/${match[2]}`.toLowerCase() : source.toLowerCase();
+}
+
+/**
+ * ネットワーク上のパスを現在のプラットフォームで開ける形式に変換します。
+ * WindowsではUNCパスに、その他ではマウント済みの共有から対応するフォルダを探します。
+ * @param host サーバー名
+ * @param segments 共有名以降のパス要素（デコード済み）
+ * @param platform 実行中のプラットフォーム
+ * @param mounts マウント済みのネットワーク共有
+ * @returns 変換結果
+ */
+function resolveNetworkPath(
+    host: string,
+    segments: string[],
+    platform: string,
+    mounts: NetworkMount[]
+): UriInputResult {
+    if (platform === 'win32') {
+        return { kind: 'path', path: `\\\\${[host, ...segments].join('\\')}` };
+    }
+
+    const [share, ...rest] = segments;
+    const shareSource = share ? `//${host}/${share}` : `//${host}`;
+    if (!share) {
+        return { kind: 'notMounted', share: shareSource };
+    }
+
+    const key = normalizeShareSource(shareSource);
+    const mount = mounts.find(m => normalizeShareSource(m.source) === key);
+    if (!mount) {
+        return { kind: 'notMounted', share: shareSource };
+    }
+
+    const target = mount.target.replace(/\/+$/, '');
+    return { kind: 'path', path: rest.length > 0 ? `${target}/${rest.join('/')}` : target };
+}
+
+/**
+ * URI形式の入力をパスに変換します。
+ * - file:///home/me/a%20b.txt → /home/me/a b.txt
+ * - file:///C:/x/y → C:/x/y（区切り文字の変換は後段のパス変換で行う）
+ * - file://server/share/x、smb://server/share/x → Windowsでは \\server\share\x、
+ *   その他のプラットフォームではマウント済みの共有のフォルダ
+ * - \\server\share\x → Windows以外ではマウント済みの共有のフォルダ
+ * URI形式でない入力はそのまま返します。
+ *
+ * @param text 入力テキスト
+ * @param platform 実行中のプラットフォーム（process.platform）
+ * @param mounts マウント済みのネットワーク共有
+ * @returns 変換結果
+ */
+export function convertUriInput(text: string, platform: string, mounts: NetworkMount[] = []): UriInputResult {
+    // Windows以外ではUNCパスをマウント済みの共有に変換する
+    const unc = UNC_REGEX.exec(text);
+    if (unc && platform !== 'win32' && !WSL_HOST_REGEX.test(unc[1])) {
+        const segments = (unc[2] ?? '').split('\\').filter(segment => segment.length > 0);
+        return resolveNetworkPath(unc[1], segments, platform, mounts);
+    }
+
+    const match = URI_REGEX.exec(text);
+    if (!match) {
+        return { kind: 'path', path: text };
+    }
+
+    const scheme = match[1].toLowerCase();
+    // ユーザー名とポート番号はパスの変換に使用しない
+    const host = safeDecode(match[2].replace(/^[^@]*@/, '').replace(/:\d+$/, ''));
+    const segments = match[3].split('/').filter(segment => segment.length > 0).map(safeDecode);
+
+    switch (scheme) {
+        case 'file':
+            if (host === '' || host.toLowerCase() === 'localhost') {
+                const decodedPath = `/${segments.join('/')}`;
+                // file:///C:/x 形式のドライブレター
+                if (/^\/[a-zA-Z]:(\/|$)/.test(decodedPath)) {
+                    return { kind: 'path', path: decodedPath.slice(1) };
+                }
+                return { kind: 'path', path: decodedPath };
+            }
+            return resolveNetworkPath(host, segments, platform, mounts);
+        case 'smb':
+            return resolveNetworkPath(host, segments, platform, mounts);
+        default:
+            return { kind: 'unsupportedScheme', scheme };
+    }
+}
+
+/**
+ * /proc/mounts のフィールドのエスケープ（空白が \040 になるなど）を元に戻します。
+ * @param value エスケープされたフィールド
+ * @returns 元の文字列
+ */
+function unescapeMountField(value: string): string {
+    return value.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+}
+
+/**
+ * /proc/mounts の内容からSMB/CIFSのマウントを取得します。
+ * @param content /proc/mounts の内容
+ * @returns マウント済みのネットワーク共有
+ */
+export function parseProcMounts(content: string): NetworkMount[] {
+    const mounts: NetworkMount[] = [];
+    for (const line of content.split('\n')) {
+        const [source, target, fsType] = line.split(' ');
+        if (!source || !target || !/^(cifs|smb3?|smbfs)$/.test(fsType ?? '')) {
+            continue;
+        }
+        mounts.push({ source: unescapeMountField(source), target: unescapeMountField(target) });
+    }
+    return mounts;
+}
+
+/**
+ * macOSの mount コマンドの出力からSMBのマウントを取得します。
+ * @param output mount コマンドの出力（//user@server/share on /Volumes/share (smbfs, ...)）
+ * @returns マウント済みのネットワーク共有
+ */
+export function parseMacMountOutput(output: string): NetworkMount[] {
+    const mounts: NetworkMount[] = [];
+    for (const line of output.split('\n')) {
+        const match = /^(\/\/\S+) on (.+) \(smbfs\b/.exec(line);
+        if (match) {
+            mounts.push({ source: safeDecode(match[1]), target: match[2] });
+        }
+    }
+    return mounts;
+}
+
+/**
+ * gvfsのマウントフォルダ名からSMB共有の場所を取得します。
+ * @param name gvfsのフォルダ名（smb-share:server=srv,share=docs）
+ * @returns 共有の場所（//server/share 形式、SMBでない場合はnull）
+ */
+export function parseGvfsShareName(name: string): string | null {
+    const match = GVFS_SMB_REGEX.exec(name);
+    if (!match) {
+        return null;
+    }
+    const params: { [key: string]: string } = {};
+    for (const pair of match[1].split(',')) {
+        const [key, value] = pair.split('=');
+        if (key && value !== undefined) {
+            params[key] = safeDecode(value);
+        }
+    }
+    return params.server && params.share ? `//${params.server}/${params.share}` : null;
+}